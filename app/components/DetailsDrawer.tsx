@@ -1,4 +1,10 @@
-import { X, CheckCircle, XCircle } from "phosphor-react";
+import {
+  X,
+  CheckCircle,
+  XCircle,
+  MinusCircle,
+  DownloadSimple,
+} from "phosphor-react";
 import { useEffect } from "react";
 import {
   Table,
@@ -8,6 +14,29 @@ import {
   TableRow,
   TableCell,
 } from "~/components/Table";
+import { isSuccessStatus } from "~/components/StatusBadge";
+import { QueryPlanView } from "~/components/PlanTree";
+import { STATEMENT_KINDS, classifyStatement } from "~/lib/sql";
+import type {
+  AssertionResult,
+  BeforeImage,
+  DriftAcknowledgement,
+  EnvironmentInfo,
+  ExecutionContext,
+  ParamValues,
+  QueryPlan,
+  DriverName,
+  ServerNotice,
+  StatementResult,
+} from "~/lib/types";
+
+// How each driver's server is named in the execution context (runs logged
+// before drivers existed were all Postgres)
+const DRIVER_LABELS: Record<DriverName, string> = {
+  postgres: "PostgreSQL",
+  mysql: "MySQL",
+  sqlite: "SQLite",
+};
 
 interface DetailsDrawerProps {
   isOpen: boolean;
@@ -19,16 +48,43 @@ interface DetailsDrawerProps {
     github_pr_url?: string | null;
     approvers?: string[] | any;
     target_database: string;
+    target_member?: string | null;
     executed_by: string;
     executed_at: string;
     status: string;
     rows_affected: number | null;
     execution_time_ms: number | null;
     result_data?: any[] | null;
+    statement_results?: StatementResult[] | null;
+    statement_timeout_ms?: number | null;
+    lock_timeout_ms?: number | null;
+    cancelled_by?: string | null;
+    cancelled_at?: string | null;
+    query_plan?: QueryPlan | null;
+    expected_rows_min?: number | null;
+    expected_rows_max?: number | null;
+    batch_size?: number | null;
+    batch_count?: number | null;
+    reverts_execution_id?: number | null;
+    parameters?: ParamValues | null;
+    scheduled_for?: string | null;
+    read_only?: boolean | null;
+    read_replica?: boolean | null;
+    run_as?: string | null;
+    notices?: ServerNotice[] | null;
+    execution_context?: ExecutionContext | null;
+    assertions?: AssertionResult[] | null;
+    schema_drift?: DriftAcknowledgement | null;
   };
+  environments: EnvironmentInfo[];
 }
 
-export function DetailsDrawer({ isOpen, onClose, entry }: DetailsDrawerProps) {
+export function DetailsDrawer({
+  isOpen,
+  onClose,
+  entry,
+  environments,
+}: DetailsDrawerProps) {
   // Close on ESC key
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -54,6 +110,24 @@ export function DetailsDrawer({ isOpen, onClose, entry }: DetailsDrawerProps) {
 
   if (!isOpen) return null;
 
+  // The preview in result_data comes from the last statement that returned rows
+  const previewStatement = entry.statement_results
+    ? [...entry.statement_results]
+        .reverse()
+        .find((statement) => statement.rows && statement.rows.length > 0)
+    : undefined;
+
+  // Scripts without DML report the rows their last query returned
+  const reportsReturnedRows =
+    entry.statement_results &&
+    entry.statement_results.length > 0 &&
+    !entry.statement_results.some(
+      (statement) => statementKind(statement) === "dml"
+    ) &&
+    entry.statement_results.some(
+      (statement) => classifyStatement(statement.sql).returnsRows
+    );
+
   const approvers = entry.approvers
     ? Array.isArray(entry.approvers)
       ? entry.approvers
@@ -107,19 +181,27 @@ export function DetailsDrawer({ isOpen, onClose, entry }: DetailsDrawerProps) {
               <div>
                 <span
                   className={`inline-block text-sm font-semibold px-2 py-0.5 rounded ${
-                    entry.target_database === "production"
+                    environments.some(
+                      (env) =>
+                        env.name === entry.target_database && env.protected
+                    )
                       ? "bg-error-100 text-error-700"
                       : "bg-info-100 text-info-700"
                   }`}
                 >
                   {entry.target_database}
                 </span>
+                {entry.target_member && (
+                  <span className="ml-1 font-mono text-xs text-neutral-600">
+                    {entry.target_member}
+                  </span>
+                )}
               </div>
             </div>
             <div>
               <div className="text-xs text-neutral-500 mb-1">Status</div>
               <div className="flex items-center gap-2">
-                {entry.status === "success" ? (
+                {isSuccessStatus(entry.status) ? (
                   <CheckCircle
                     size={14}
                     className="text-success-600"
@@ -133,14 +215,14 @@ export function DetailsDrawer({ isOpen, onClose, entry }: DetailsDrawerProps) {
                   />
                 )}
                 <span className="text-sm font-medium text-neutral-900 capitalize">
-                  {entry.status}
+                  {entry.status.replace(/_/g, " ")}
                 </span>
               </div>
             </div>
             {entry.rows_affected !== null && (
               <div>
                 <div className="text-xs text-neutral-500 mb-1">
-                  Rows Affected
+                  {reportsReturnedRows ? "Rows Returned" : "Rows Affected"}
                 </div>
                 <div className="text-2xl font-bold text-neutral-900">
                   {entry.rows_affected.toLocaleString()}
@@ -162,19 +244,156 @@ export function DetailsDrawer({ isOpen, onClose, entry }: DetailsDrawerProps) {
           {/* Details - Subtle, Secondary */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
-              <div className="text-xs text-neutral-500 mb-1">Executed By</div>
+              <div className="text-xs text-neutral-500 mb-1">
+                {entry.scheduled_for ? "Scheduled By" : "Executed By"}
+              </div>
               <div className="text-sm text-neutral-900">
                 {entry.executed_by}
               </div>
             </div>
+            {entry.scheduled_for && (
+              <div>
+                <div className="text-xs text-neutral-500 mb-1">
+                  Scheduled For
+                </div>
+                <div className="text-sm text-neutral-900">
+                  {new Date(entry.scheduled_for).toLocaleString()}
+                </div>
+              </div>
+            )}
             <div>
               <div className="text-xs text-neutral-500 mb-1">Executed At</div>
               <div className="text-sm text-neutral-900">
                 {new Date(entry.executed_at).toLocaleString()}
               </div>
             </div>
+            {entry.cancelled_by && (
+              <div>
+                <div className="text-xs text-neutral-500 mb-1">
+                  Cancelled By
+                </div>
+                <div className="text-sm text-neutral-900">
+                  {entry.cancelled_by}
+                  {entry.cancelled_at &&
+                    ` at ${new Date(entry.cancelled_at).toLocaleString()}`}
+                </div>
+              </div>
+            )}
+            {(entry.statement_timeout_ms != null ||
+              entry.lock_timeout_ms != null) && (
+              <div>
+                <div className="text-xs text-neutral-500 mb-1">Timeouts</div>
+                <div className="text-sm text-neutral-900">
+                  statement {formatTimeout(entry.statement_timeout_ms)} · lock{" "}
+                  {formatTimeout(entry.lock_timeout_ms)}
+                </div>
+              </div>
+            )}
+            {entry.reverts_execution_id != null && (
+              <div>
+                <div className="text-xs text-neutral-500 mb-1">Reverts</div>
+                <div className="text-sm text-neutral-900">
+                  Execution #{entry.reverts_execution_id} (rollback script)
+                </div>
+              </div>
+            )}
+            {entry.run_as && (
+              <div>
+                <div className="text-xs text-neutral-500 mb-1">Role</div>
+                <div className="text-sm font-mono text-neutral-900">
+                  {entry.run_as}
+                </div>
+              </div>
+            )}
+            {entry.read_only && (
+              <div>
+                <div className="text-xs text-neutral-500 mb-1">Transaction</div>
+                <div className="text-sm text-neutral-900">
+                  Read only
+                  {entry.read_replica ? " · on the read-only replica" : ""}
+                </div>
+              </div>
+            )}
+            {entry.batch_size != null && (
+              <div>
+                <div className="text-xs text-neutral-500 mb-1">Batches</div>
+                <div className="text-sm text-neutral-900">
+                  {(entry.batch_count ?? 0).toLocaleString()} × up to{" "}
+                  {entry.batch_size.toLocaleString()} rows
+                </div>
+              </div>
+            )}
+            {entry.expected_rows_min != null && (
+              <div>
+                <div className="text-xs text-neutral-500 mb-1">
+                  Expected Rows
+                </div>
+                <div
+                  className={`text-sm ${
+                    entry.status === "rows_mismatch"
+                      ? "text-warning-700 font-medium"
+                      : "text-neutral-900"
+                  }`}
+                >
+                  {entry.expected_rows_min === entry.expected_rows_max
+                    ? entry.expected_rows_min.toLocaleString()
+                    : `${entry.expected_rows_min.toLocaleString()}–${(
+                        entry.expected_rows_max ?? entry.expected_rows_min
+                      ).toLocaleString()}`}
+                  {entry.rows_affected !== null &&
+                    ` (actual ${entry.rows_affected.toLocaleString()})`}
+                </div>
+              </div>
+            )}
           </div>
 
+          {/* Session the script ran in */}
+          {entry.execution_context && (
+            <div>
+              <div className="text-xs text-neutral-500 mb-2">
+                Execution Context
+              </div>
+              <div className="bg-neutral-50 border border-neutral-200 rounded-lg p-3 font-mono text-xs text-neutral-800 grid grid-cols-1 md:grid-cols-2 gap-1">
+                <div>
+                  <span className="text-neutral-500">server</span>{" "}
+                  {DRIVER_LABELS[entry.execution_context.driver ?? "postgres"]}{" "}
+                  {entry.execution_context.serverVersion}
+                </div>
+                <div>
+                  <span className="text-neutral-500">database</span>{" "}
+                  {entry.execution_context.database}
+                </div>
+                <div>
+                  <span className="text-neutral-500">current_user</span>{" "}
+                  {entry.execution_context.currentUser}
+                </div>
+                <div>
+                  <span className="text-neutral-500">search_path</span>{" "}
+                  {entry.execution_context.searchPath}
+                </div>
+                <div>
+                  <span className="text-neutral-500">app</span>{" "}
+                  {entry.execution_context.appVersion}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Parameter values bound for this run */}
+          {entry.parameters && Object.keys(entry.parameters).length > 0 && (
+            <div>
+              <div className="text-xs text-neutral-500 mb-2">Parameters</div>
+              <div className="bg-neutral-50 border border-neutral-200 rounded-lg p-3 font-mono text-xs text-neutral-800 space-y-1">
+                {Object.entries(entry.parameters).map(([name, value]) => (
+                  <div key={name}>
+                    <span className="text-neutral-500">{name}</span> ={" "}
+                    {value ?? <span className="text-neutral-400">NULL</span>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Approvers */}
           {approvers.length > 0 && (
             <div>
@@ -204,6 +423,69 @@ export function DetailsDrawer({ isOpen, onClose, entry }: DetailsDrawerProps) {
             </div>
           )}
 
+          {/* -- Assert before/after checks */}
+          {entry.assertions && entry.assertions.length > 0 && (
+            <div>
+              <div className="flex items-baseline justify-between mb-3">
+                <div className="text-xs text-neutral-500">Assertions</div>
+                <div className="text-xs text-neutral-400">
+                  {entry.assertions.filter((a) => a.passed).length} of{" "}
+                  {entry.assertions.length} passed
+                </div>
+              </div>
+              <div className="space-y-2">
+                {entry.assertions.map((assertion, idx) => (
+                  <AssertionItem key={idx} assertion={assertion} />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Schema drift someone acknowledged before the run */}
+          {entry.schema_drift && (
+            <div>
+              <div className="flex items-baseline justify-between mb-3">
+                <div className="text-xs text-neutral-500">Schema Drift</div>
+                <div className="text-xs text-neutral-400">
+                  Acknowledged by {entry.schema_drift.acknowledgedBy} at{" "}
+                  {new Date(entry.schema_drift.acknowledgedAt).toLocaleString()}
+                </div>
+              </div>
+              <div className="space-y-2">
+                {entry.schema_drift.drift
+                  .filter(
+                    (drift) => drift.error || drift.differences.length > 0
+                  )
+                  .map((drift) => (
+                    <div
+                      key={drift.reference}
+                      className="border border-warning-200 bg-warning-50 rounded-lg px-3 py-2 text-xs"
+                    >
+                      <div className="text-warning-800 mb-1">
+                        {drift.target} compared with {drift.reference}
+                        {drift.snapshotAt ? " (snapshot before its run)" : ""}
+                      </div>
+                      {drift.error ? (
+                        <p className="text-error-700">{drift.error}</p>
+                      ) : (
+                        <ul className="font-mono text-neutral-900 space-y-0.5">
+                          {drift.differences.map((difference, idx) => (
+                            <li key={idx} className="break-words">
+                              {difference.kind === "table"
+                                ? `table ${difference.table}`
+                                : `${difference.table} ${difference.kind} ${difference.name}`}
+                              : {difference.reference ?? "(missing)"} →{" "}
+                              {difference.target ?? "(missing)"}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+              </div>
+            </div>
+          )}
+
           {/* SQL Script */}
           <div>
             <div className="text-xs text-neutral-500 mb-2">SQL Script</div>
@@ -212,64 +494,86 @@ export function DetailsDrawer({ isOpen, onClose, entry }: DetailsDrawerProps) {
             </pre>
           </div>
 
+          {/* Statements */}
+          {entry.statement_results && entry.statement_results.length > 0 && (
+            <div>
+              <div className="flex items-baseline justify-between mb-3">
+                <div className="text-xs text-neutral-500">Statements</div>
+                <div className="text-xs text-neutral-400">
+                  {entry.statement_results.length} statement
+                  {entry.statement_results.length !== 1 ? "s" : ""}
+                </div>
+              </div>
+              <div className="space-y-2">
+                {entry.statement_results.map((statement) => (
+                  <StatementItem key={statement.index} statement={statement} />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* NOTICE/WARNING messages from the server */}
+          {entry.notices && entry.notices.length > 0 && (
+            <div>
+              <div className="flex items-baseline justify-between mb-3">
+                <div className="text-xs text-neutral-500">Server Messages</div>
+                <div className="text-xs text-neutral-400">
+                  {entry.notices.length} message
+                  {entry.notices.length !== 1 ? "s" : ""}
+                </div>
+              </div>
+              <div className="border border-neutral-200 rounded-lg divide-y divide-neutral-100 max-h-96 overflow-y-auto">
+                {entry.notices.map((notice, idx) => (
+                  <NoticeItem key={idx} notice={notice} />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Query Plan reviewed before the run */}
+          {entry.query_plan && (
+            <div>
+              <div className="flex items-baseline justify-between mb-3">
+                <div className="text-xs text-neutral-500">Query Plan</div>
+                <div className="text-xs text-neutral-400">
+                  {entry.query_plan.analyzed ? "EXPLAIN ANALYZE" : "EXPLAIN"} on{" "}
+                  {entry.query_plan.target_database} by{" "}
+                  {entry.query_plan.created_by} at{" "}
+                  {new Date(entry.query_plan.created_at).toLocaleString()}
+                </div>
+              </div>
+              <QueryPlanView
+                statements={entry.query_plan.statements}
+                analyzed={entry.query_plan.analyzed}
+              />
+            </div>
+          )}
+
           {/* Query Results */}
-          {(() => {
-            const resultData = entry.result_data;
-            if (
-              resultData &&
-              Array.isArray(resultData) &&
-              resultData.length > 0 &&
-              resultData[0]
-            ) {
-              const firstRow = resultData[0];
-              const columns = Object.keys(firstRow);
-              return (
-                <div>
-                  <div className="flex items-baseline justify-between mb-3">
-                    <div className="text-xs text-neutral-500">
-                      Query Results
-                    </div>
-                    <div className="text-xs text-neutral-400">
-                      {resultData.length} row
-                      {resultData.length !== 1 ? "s" : ""}
-                    </div>
-                  </div>
-                  <div className="overflow-x-auto max-h-96 overflow-y-auto border border-neutral-200 rounded-lg">
-                    <Table>
-                      <TableHeader>
-                        {columns.map((col) => (
-                          <TableHeaderCell key={col}>{col}</TableHeaderCell>
-                        ))}
-                      </TableHeader>
-                      <TableBody>
-                        {resultData.map((row: any, rowIdx: number) => (
-                          <TableRow key={rowIdx}>
-                            {columns.map((col) => (
-                              <TableCell
-                                key={col}
-                                className="font-mono text-xs"
-                              >
-                                {row[col] !== null && row[col] !== undefined ? (
-                                  <span className="text-neutral-900">
-                                    {String(row[col])}
-                                  </span>
-                                ) : (
-                                  <span className="text-neutral-400 italic">
-                                    NULL
-                                  </span>
-                                )}
-                              </TableCell>
-                            ))}
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
+          {entry.result_data &&
+            Array.isArray(entry.result_data) &&
+            entry.result_data.length > 0 &&
+            entry.result_data[0] && (
+              <div>
+                <div className="flex items-baseline justify-between mb-3">
+                  <div className="text-xs text-neutral-500">Query Results</div>
+                  <div className="flex items-center gap-3 text-xs text-neutral-400">
+                    {previewStatement?.rowCount != null &&
+                    previewStatement.rowCount > entry.result_data.length
+                      ? `First ${
+                          entry.result_data.length
+                        } of ${previewStatement.rowCount.toLocaleString()} rows`
+                      : `${entry.result_data.length} row${
+                          entry.result_data.length !== 1 ? "s" : ""
+                        }`}
+                    {previewStatement?.artifactId && (
+                      <DownloadLinks artifactId={previewStatement.artifactId} />
+                    )}
                   </div>
                 </div>
-              );
-            }
-            return null;
-          })()}
+                <ResultTable rows={entry.result_data} />
+              </div>
+            )}
 
           {/* GitHub PR Link */}
           {entry.github_pr_url && (
@@ -309,3 +613,296 @@ export function DetailsDrawer({ isOpen, onClose, entry }: DetailsDrawerProps) {
     </>
   );
 }
+
+function AssertionItem({ assertion }: { assertion: AssertionResult }) {
+  return (
+    <div className="flex items-start gap-2 border border-neutral-200 rounded-lg px-3 py-2 text-xs">
+      {assertion.passed === null ? (
+        <MinusCircle
+          size={14}
+          className="text-neutral-400 mt-0.5 shrink-0"
+          weight="duotone"
+        />
+      ) : assertion.passed ? (
+        <CheckCircle
+          size={14}
+          className="text-success-600 mt-0.5 shrink-0"
+          weight="duotone"
+        />
+      ) : (
+        <XCircle
+          size={14}
+          className="text-error-600 mt-0.5 shrink-0"
+          weight="duotone"
+        />
+      )}
+      <div className="min-w-0">
+        <div className="text-neutral-500">
+          {assertion.phase === "before" ? "Before" : "After"} the script
+          {assertion.passed === null
+            ? " · not evaluated"
+            : assertion.error
+            ? ""
+            : ` · returned ${JSON.stringify(assertion.value ?? null)}`}
+        </div>
+        <p className="mt-0.5 font-mono text-neutral-900 break-words">
+          {assertion.sql}
+        </p>
+        {assertion.error && (
+          <p className="mt-0.5 text-error-700">{assertion.error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function NoticeItem({ notice }: { notice: ServerNotice }) {
+  const warning = notice.severity === "WARNING";
+  return (
+    <div className="px-3 py-2 text-xs">
+      <div className="flex items-center gap-2">
+        <span
+          className={`px-1.5 py-0.5 rounded font-medium ${
+            warning
+              ? "bg-warning-100 text-warning-800"
+              : "bg-neutral-100 text-neutral-700"
+          }`}
+        >
+          {notice.severity}
+        </span>
+        <span className="text-neutral-400">
+          {notice.statement !== null
+            ? `Statement ${notice.statement + 1}`
+            : "Outside the script's statements"}
+        </span>
+      </div>
+      <p className="mt-1 font-mono text-neutral-900 whitespace-pre-wrap">
+        {notice.message}
+      </p>
+      {notice.detail && (
+        <p className="mt-0.5 text-neutral-600">Detail: {notice.detail}</p>
+      )}
+      {notice.hint && (
+        <p className="mt-0.5 text-neutral-600">Hint: {notice.hint}</p>
+      )}
+      {notice.where && (
+        <p className="mt-0.5 text-neutral-400 font-mono">{notice.where}</p>
+      )}
+    </div>
+  );
+}
+
+// A statement's kind (entries logged before classification don't store it)
+function statementKind(statement: StatementResult) {
+  return statement.kind ?? classifyStatement(statement.sql).kind;
+}
+
+// One statement of a multi-statement script
+function StatementItem({ statement }: { statement: StatementResult }) {
+  const icon =
+    statement.status === "success" ? (
+      <CheckCircle size={14} className="text-success-600" weight="duotone" />
+    ) : statement.status === "error" ? (
+      <XCircle size={14} className="text-error-600" weight="duotone" />
+    ) : (
+      <MinusCircle size={14} className="text-neutral-400" weight="duotone" />
+    );
+
+  return (
+    <details
+      className={`border rounded-lg ${
+        statement.status === "error"
+          ? "border-error-200 bg-error-50"
+          : "border-neutral-200"
+      }`}
+      open={statement.status === "error"}
+    >
+      <summary className="flex items-center gap-3 px-3 py-2 cursor-pointer text-xs">
+        {icon}
+        <span className="font-semibold text-neutral-900">
+          #{statement.index + 1}
+        </span>
+        <span className="font-mono text-neutral-700 truncate flex-1">
+          {statement.sql.split("\n")[0]}
+        </span>
+        <span className="text-neutral-500 whitespace-nowrap">
+          line {statement.line}
+        </span>
+        <span className="px-2 py-0.5 rounded border border-neutral-200 text-neutral-600">
+          {STATEMENT_KINDS[statementKind(statement)]}
+        </span>
+        {statement.command && (
+          <span className="px-2 py-0.5 rounded bg-neutral-100 text-neutral-800 font-semibold">
+            {statement.command}
+          </span>
+        )}
+        {statement.rowCount !== null && (
+          <span className="text-neutral-600 whitespace-nowrap">
+            {statement.rowCount.toLocaleString()} row
+            {statement.rowCount !== 1 ? "s" : ""}
+          </span>
+        )}
+        {statement.executionTime !== null && (
+          <span className="text-neutral-500 whitespace-nowrap">
+            {statement.executionTime}ms
+          </span>
+        )}
+        {statement.status === "skipped" && (
+          <span className="text-neutral-400 italic">not executed</span>
+        )}
+      </summary>
+      <div className="px-3 pb-3 space-y-3">
+        <pre className="text-xs bg-neutral-900 text-neutral-100 p-3 rounded overflow-x-auto font-mono">
+          {statement.sql}
+        </pre>
+        {statement.error && (
+          <p className="text-sm text-error-700">
+            {statement.error}
+            {statement.errorPosition && (
+              <span className="text-error-600">
+                {" "}
+                (line {statement.errorPosition.line}, column{" "}
+                {statement.errorPosition.column})
+              </span>
+            )}
+          </p>
+        )}
+        {statement.artifactId && (
+          <div className="flex items-center gap-3 text-xs text-neutral-500">
+            {statement.rows &&
+              statement.rowCount !== null &&
+              statement.rowCount > statement.rows.length && (
+                <span>
+                  Showing first {statement.rows.length} of{" "}
+                  {statement.rowCount.toLocaleString()} rows
+                </span>
+              )}
+            <DownloadLinks artifactId={statement.artifactId} />
+          </div>
+        )}
+        {statement.rows && statement.rows.length > 0 && (
+          <ResultTable rows={statement.rows} />
+        )}
+        {statement.beforeImage && (
+          <BeforeImageSection image={statement.beforeImage} />
+        )}
+      </div>
+    </details>
+  );
+}
+
+// Rows an UPDATE/DELETE changed, as they were before it ran
+function BeforeImageSection({ image }: { image: BeforeImage }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3 text-xs text-neutral-500">
+        <span>
+          Before image of{" "}
+          <span className="font-mono text-neutral-700">{image.table}</span>
+          {!image.error &&
+            ` · ${image.rowCount.toLocaleString()} row${
+              image.rowCount !== 1 ? "s" : ""
+            }`}
+          {image.rows &&
+            image.rowCount > image.rows.length &&
+            ` (showing first ${image.rows.length})`}
+        </span>
+        {image.artifactId && (
+          <DownloadLinks artifactId={image.artifactId} restore />
+        )}
+      </div>
+      {image.error && (
+        <p className="text-xs text-warning-700">Not captured: {image.error}</p>
+      )}
+      {image.truncated && (
+        <p className="text-xs text-warning-700">
+          Capture stopped at {image.rowCount.toLocaleString()} rows; the restore
+          script does not cover the rest.
+        </p>
+      )}
+      {!image.error && image.primaryKey.length === 0 && image.rowCount > 0 && (
+        <p className="text-xs text-neutral-500 italic">
+          {image.table} has no primary key, so updated rows must be matched up
+          by hand.
+        </p>
+      )}
+      {image.rows && image.rows.length > 0 && <ResultTable rows={image.rows} />}
+    </div>
+  );
+}
+
+// Links to download a statement's full result set (or before image)
+function DownloadLinks({
+  artifactId,
+  restore = false,
+}: {
+  artifactId: number;
+  restore?: boolean;
+}) {
+  return (
+    <span className="inline-flex items-center gap-2">
+      <DownloadSimple size={14} className="text-neutral-500" />
+      <a
+        href={`/api/artifacts/${artifactId}?format=csv`}
+        className="font-medium text-primary-600 hover:text-primary-700 hover:underline"
+        download
+      >
+        CSV
+      </a>
+      <a
+        href={`/api/artifacts/${artifactId}?format=ndjson`}
+        className="font-medium text-primary-600 hover:text-primary-700 hover:underline"
+        download
+      >
+        NDJSON
+      </a>
+      {restore && (
+        <a
+          href={`/api/artifacts/${artifactId}?format=sql`}
+          className="font-medium text-primary-600 hover:text-primary-700 hover:underline"
+          download
+        >
+          Restore script
+        </a>
+      )}
+    </span>
+  );
+}
+
+// Table of returned rows; columns come from the first row
+function ResultTable({ rows }: { rows: any[] }) {
+  const columns = Object.keys(rows[0] || {});
+  return (
+    <div className="overflow-x-auto max-h-96 overflow-y-auto border border-neutral-200 rounded-lg bg-white">
+      <Table>
+        <TableHeader>
+          {columns.map((col) => (
+            <TableHeaderCell key={col}>{col}</TableHeaderCell>
+          ))}
+        </TableHeader>
+        <TableBody>
+          {rows.map((row: any, rowIdx: number) => (
+            <TableRow key={rowIdx}>
+              {columns.map((col) => (
+                <TableCell key={col} className="font-mono text-xs">
+                  {row[col] !== null && row[col] !== undefined ? (
+                    <span className="text-neutral-900">{String(row[col])}</span>
+                  ) : (
+                    <span className="text-neutral-400 italic">NULL</span>
+                  )}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// Timeout in ms as shown in the drawer; 0 means Postgres applies no limit
+function formatTimeout(ms: number | null | undefined) {
+  if (ms == null) return "default";
+  if (ms === 0) return "none";
+  return ms % 1000 === 0 ? `${ms / 1000}s` : `${ms}ms`;
+}
@@ -0,0 +1,159 @@
+import { CheckCircle, XCircle, MinusCircle } from "phosphor-react";
+import type { PlanNode, StatementPlan } from "~/lib/types";
+
+// EXPLAIN output for each statement of a script
+export function QueryPlanView({
+  statements,
+  analyzed,
+}: {
+  statements: StatementPlan[];
+  analyzed: boolean;
+}) {
+  return (
+    <div className="space-y-2">
+      {statements.map((statement) => (
+        <details
+          key={statement.index}
+          className={`border rounded-lg ${
+            statement.status === "error"
+              ? "border-error-200 bg-error-50"
+              : "border-neutral-200 bg-white"
+          }`}
+          open={statement.status === "planned" || statement.status === "error"}
+        >
+          <summary className="flex items-center gap-3 px-3 py-2 cursor-pointer text-xs">
+            {statement.status === "planned" ? (
+              <CheckCircle
+                size={14}
+                className="text-success-600"
+                weight="duotone"
+              />
+            ) : statement.status === "error" ? (
+              <XCircle size={14} className="text-error-600" weight="duotone" />
+            ) : (
+              <MinusCircle
+                size={14}
+                className="text-neutral-400"
+                weight="duotone"
+              />
+            )}
+            <span className="font-semibold text-neutral-900">
+              #{statement.index + 1}
+            </span>
+            <span className="font-mono text-neutral-700 truncate flex-1">
+              {statement.sql.split("\n")[0]}
+            </span>
+            <span className="text-neutral-500 whitespace-nowrap">
+              line {statement.line}
+            </span>
+            {statement.plan && (
+              <span className="text-neutral-600 whitespace-nowrap">
+                cost {statement.plan["Total Cost"].toLocaleString()} · est.{" "}
+                {statement.plan["Plan Rows"].toLocaleString()} row
+                {statement.plan["Plan Rows"] !== 1 ? "s" : ""}
+              </span>
+            )}
+            {analyzed && statement.executionTime !== undefined && (
+              <span className="text-neutral-500 whitespace-nowrap">
+                {statement.executionTime.toFixed(1)}ms
+              </span>
+            )}
+          </summary>
+          <div className="px-3 pb-3">
+            {statement.note && (
+              <p className="text-xs text-neutral-500 italic">
+                {statement.note}
+              </p>
+            )}
+            {statement.error && (
+              <p className="text-sm text-error-700">{statement.error}</p>
+            )}
+            {statement.plan && (
+              <div className="border border-neutral-200 rounded bg-neutral-50 p-2 overflow-x-auto">
+                <PlanTree node={statement.plan} />
+              </div>
+            )}
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+// A plan node and its children, indented by depth
+export function PlanTree({
+  node,
+  depth = 0,
+}: {
+  node: PlanNode;
+  depth?: number;
+}) {
+  const target = node["Relation Name"]
+    ? ` on ${node["Relation Name"]}${
+        node.Alias && node.Alias !== node["Relation Name"]
+          ? ` ${node.Alias}`
+          : ""
+      }`
+    : "";
+  const condition =
+    node["Index Cond"] || node["Hash Cond"] || node["Join Filter"];
+  const actualRows =
+    node["Actual Rows"] !== undefined
+      ? node["Actual Rows"] * (node["Actual Loops"] || 1)
+      : undefined;
+  // Flag estimates off by 10x or more (both are per loop) - the usual sign
+  // of stale statistics
+  const perLoop = node["Actual Rows"];
+  const misestimated =
+    perLoop !== undefined &&
+    Math.max(perLoop, node["Plan Rows"], 1) /
+      Math.max(Math.min(perLoop, node["Plan Rows"]), 1) >=
+      10;
+
+  return (
+    <div style={{ paddingLeft: depth * 16 }}>
+      <div className="py-1 text-xs">
+        <span className="text-neutral-400">{depth > 0 ? "→ " : ""}</span>
+        <span className="font-semibold text-neutral-900">
+          {node["Join Type"] ? `${node["Join Type"]} ` : ""}
+          {node["Node Type"]}
+        </span>
+        <span className="font-mono text-neutral-700">{target}</span>
+        {node["Index Name"] && (
+          <span className="text-neutral-600">
+            {" "}
+            using <span className="font-mono">{node["Index Name"]}</span>
+          </span>
+        )}
+        <span className="text-neutral-500">
+          {" "}
+          · cost {node["Startup Cost"].toFixed(2)}..
+          {node["Total Cost"].toFixed(2)} · est. rows{" "}
+          {node["Plan Rows"].toLocaleString()}
+        </span>
+        {actualRows !== undefined && (
+          <span
+            className={misestimated ? "text-warning-700" : "text-neutral-500"}
+          >
+            {" "}
+            · actual rows {actualRows.toLocaleString()}
+            {node["Actual Loops"] && node["Actual Loops"] > 1
+              ? ` (${node["Actual Loops"]} loops)`
+              : ""}
+            {node["Actual Total Time"] !== undefined &&
+              ` · ${node["Actual Total Time"].toFixed(1)}ms`}
+          </span>
+        )}
+      </div>
+      {(condition || node.Filter) && (
+        <div className="pl-4 pb-1 font-mono text-xs text-neutral-500">
+          {condition && <div>{condition}</div>}
+          {node.Filter && <div>Filter: {node.Filter}</div>}
+        </div>
+      )}
+      {node.Plans?.map((child, i) => (
+        <PlanTree key={i} node={child} depth={depth + 1} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+// Pill badge for sql_execution_log statuses
+const statusStyles: Record<string, { label: string; className: string }> = {
+  success: { label: "success", className: "bg-success-100 text-success-900" },
+  error: { label: "error", className: "bg-error-100 text-error-900" },
+  timeout: { label: "timeout", className: "bg-error-100 text-error-900" },
+  cancelled: {
+    label: "cancelled",
+    className: "bg-neutral-100 text-neutral-800",
+  },
+  interrupted: {
+    label: "interrupted",
+    className: "bg-warning-100 text-warning-900",
+  },
+  rows_mismatch: {
+    label: "rows mismatch",
+    className: "bg-warning-100 text-warning-900",
+  },
+  assertion_failed: {
+    label: "assertion failed",
+    className: "bg-warning-100 text-warning-900",
+  },
+  dry_run: { label: "dry run", className: "bg-info-100 text-info-900" },
+  dry_run_error: {
+    label: "dry run error",
+    className: "bg-warning-100 text-warning-900",
+  },
+};
+
+export function StatusBadge({ status }: { status: string }) {
+  const style = statusStyles[status] || {
+    label: status,
+    className: "bg-neutral-100 text-neutral-800",
+  };
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold ${style.className}`}
+    >
+      {style.label}
+    </span>
+  );
+}
+
+// Whether a status represents a successful run (real or dry)
+export function isSuccessStatus(status: string): boolean {
+  return status === "success" || status === "dry_run";
+}
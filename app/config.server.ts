@@ -1,14 +1,243 @@
 import dotenv from "dotenv";
+import type { DriverName, EnvironmentInfo, RiskRule } from "~/lib/types";
+import { RISK_RULES } from "~/lib/risk";
+import packageJson from "../package.json";
 
 // Load environment variables (quiet mode to suppress promotional messages)
 dotenv.config({ quiet: true });
 
+// A target environment scripts are executed against
+export interface EnvironmentConfig extends Omit<EnvironmentInfo, "group"> {
+  databaseUrl: string;
+  // Read-only connection (e.g. a replica) used for read-only scripts
+  readOnlyUrl?: string;
+  // Roles scripts may switch to with -- RunAs, from <PREFIX>_ROLES
+  roles: string[];
+  // Default timeouts; scripts can override them with -- Timeout: 30s and
+  // -- LockTimeout: 5s headers ("0" disables a timeout)
+  timeouts: { statement: string; lock: string };
+  // Set when the environment is a target group of member databases
+  group?: TargetGroupConfig;
+}
+
+// A target group: scripts run against every member database
+export interface TargetGroupConfig {
+  // From <PREFIX>_DB_URLS ("name=url" or bare URLs, comma or newline separated)
+  members: GroupMember[];
+  // From <PREFIX>_DISCOVERY_QUERY: returns name and url columns, run against
+  // <PREFIX>_DISCOVERY_DB_URL (default: the audit database) before each run
+  discoveryQuery?: string;
+  discoveryUrl?: string;
+  concurrency: number;
+  stopOnFailure: boolean;
+  canary?: string; // Member that runs alone first
+}
+
+export interface GroupMember {
+  name: string;
+  url: string;
+}
+
+// Parse <PREFIX>_DB_URLS. Bare URLs are named after their database.
+function parseMembers(prefix: string, value: string): GroupMember[] {
+  return value
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const named = entry.match(/^([A-Za-z0-9_.-]+)=(.+)$/);
+      if (named) return { name: named[1], url: named[2].trim() };
+      try {
+        const name = decodeURIComponent(new URL(entry).pathname.slice(1));
+        if (name) return { name, url: entry };
+      } catch {
+        // Reported below
+      }
+      throw new Error(
+        `${prefix}_DB_URLS: can't name "${entry}" (use name=postgresql://...)`
+      );
+    });
+}
+
+// Target group settings of an environment, or undefined when it has a
+// single database
+function loadGroup(prefix: string): TargetGroupConfig | undefined {
+  const urls = process.env[`${prefix}_DB_URLS`];
+  const discoveryQuery = process.env[`${prefix}_DISCOVERY_QUERY`];
+  if (!urls && !discoveryQuery) return undefined;
+
+  const members = urls ? parseMembers(prefix, urls) : [];
+  const names = members.map((member) => member.name);
+  if (names.some((name, i) => names.indexOf(name) !== i)) {
+    throw new Error(`${prefix}_DB_URLS: member names must be unique`);
+  }
+  const canary = process.env[`${prefix}_CANARY`] || undefined;
+  if (canary && !discoveryQuery && !names.includes(canary)) {
+    throw new Error(`${prefix}_CANARY: "${canary}" is not a member`);
+  }
+  const onFailure = (
+    process.env[`${prefix}_ON_FAILURE`] || "stop"
+  ).toLowerCase();
+  if (onFailure !== "stop" && onFailure !== "continue") {
+    throw new Error(`${prefix}_ON_FAILURE must be "stop" or "continue"`);
+  }
+
+  return {
+    members,
+    discoveryQuery,
+    discoveryUrl: process.env[`${prefix}_DISCOVERY_DB_URL`] || undefined,
+    concurrency: Math.max(
+      parseInt(process.env[`${prefix}_CONCURRENCY`] || "1") || 1,
+      1
+    ),
+    stopOnFailure: onFailure === "stop",
+    canary,
+  };
+}
+
+// Driver a connection string implies: mysql:// URLs and sqlite: paths (or
+// *.db / *.sqlite files); anything else is Postgres
+export function inferDriver(url: string): DriverName {
+  if (/^mysql:\/\//i.test(url)) return "mysql";
+  if (/^sqlite:/i.test(url) || /\.(db|sqlite3?)$/i.test(url)) return "sqlite";
+  return "postgres";
+}
+
+// Driver of an environment: <PREFIX>_DRIVER, else implied by its URL (or
+// its first group member's)
+function loadDriver(prefix: string, url: string): DriverName {
+  const setting = process.env[`${prefix}_DRIVER`]?.trim().toLowerCase();
+  if (!setting) return inferDriver(url);
+  if (setting !== "postgres" && setting !== "mysql" && setting !== "sqlite") {
+    throw new Error(
+      `${prefix}_DRIVER must be "postgres", "mysql" or "sqlite" (got "${setting}")`
+    );
+  }
+  return setting;
+}
+
+// Prefix of an environment's settings, e.g. prod-us -> PROD_US_DB_URL. The
+// production environment keeps the original PROD_* variable names.
+export function envPrefix(name: string): string {
+  return name === "production"
+    ? "PROD"
+    : name.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+}
+
+// Environments in promotion order, from ENVIRONMENTS (default
+// "staging,production"). Each one requires the previous environment unless
+// <PREFIX>_REQUIRES lists others ("none" for no prerequisite); the last one
+// is protected (production-grade) unless <PREFIX>_PROTECTED says otherwise.
+function loadEnvironments(): EnvironmentConfig[] {
+  const names = (process.env.ENVIRONMENTS || "staging,production")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names.map((name, index) => {
+    if (!/^[a-z0-9][a-z0-9_-]*$/.test(name) || name === "audit") {
+      throw new Error(`Invalid environment name "${name}" in ENVIRONMENTS`);
+    }
+    if (names.indexOf(name) !== index) {
+      throw new Error(`Environment "${name}" is listed twice in ENVIRONMENTS`);
+    }
+
+    const prefix = envPrefix(name);
+    const requiresSetting = process.env[`${prefix}_REQUIRES`];
+    const requires =
+      requiresSetting === undefined
+        ? names.slice(Math.max(index - 1, 0), index)
+        : requiresSetting
+            .split(",")
+            .map((required) => required.trim().toLowerCase())
+            .filter((required) => required && required !== "none");
+    // Prerequisites must come earlier in the order, so rules can't loop
+    for (const required of requires) {
+      if (names.indexOf(required) === -1 || names.indexOf(required) >= index) {
+        throw new Error(
+          `${prefix}_REQUIRES: "${required}" must be an environment listed before ${name}`
+        );
+      }
+    }
+
+    const protectedSetting = process.env[`${prefix}_PROTECTED`];
+    const isProtected =
+      protectedSetting === undefined
+        ? index === names.length - 1
+        : protectedSetting === "true";
+    const group = loadGroup(prefix);
+    const databaseUrl = process.env[`${prefix}_DB_URL`] || "";
+
+    return {
+      name,
+      label: process.env[`${prefix}_LABEL`] || name,
+      driver: loadDriver(prefix, databaseUrl || group?.members[0]?.url || ""),
+      requires,
+      protected: isProtected,
+      databaseUrl,
+      readOnlyUrl: process.env[`${prefix}_READONLY_DB_URL`] || undefined,
+      roles: (process.env[`${prefix}_ROLES`] || "")
+        .split(",")
+        .map((role) => role.trim())
+        .filter(Boolean),
+      // Set "0" to run without a limit
+      timeouts: {
+        statement: process.env[`${prefix}_STATEMENT_TIMEOUT`] || "10m",
+        lock:
+          process.env[`${prefix}_LOCK_TIMEOUT`] ||
+          (isProtected ? "10s" : "30s"),
+      },
+      group,
+    };
+  });
+}
+
+// What scripts with a risk finding need before running on a protected
+// environment
+export interface RiskPolicy {
+  confirm: boolean; // Type the script name to confirm
+  approvals: number; // Minimum PR approvals
+}
+
+// Parse RISK_POLICY, e.g. "drop:confirm, unbounded_write:approvals=3"
+// ("all" applies to every rule)
+function loadRiskPolicy(): Partial<Record<RiskRule, RiskPolicy>> {
+  const policies: Partial<Record<RiskRule, RiskPolicy>> = {};
+  const rules = Object.keys(RISK_RULES) as RiskRule[];
+
+  for (const entry of (process.env.RISK_POLICY || "").split(",")) {
+    const [rule, action] = entry.split(":").map((part) => part.trim());
+    if (!rule) continue;
+    if (rule !== "all" && !rules.includes(rule as RiskRule)) {
+      throw new Error(
+        `RISK_POLICY: unknown rule "${rule}" (use ${rules.join(", ")} or all)`
+      );
+    }
+    const approvals = action?.match(/^approvals\s*=\s*(\d+)$/);
+    if (action !== "confirm" && !approvals) {
+      throw new Error(
+        `RISK_POLICY: "${entry.trim()}" needs an action (confirm or approvals=N)`
+      );
+    }
+    for (const name of rule === "all" ? rules : [rule as RiskRule]) {
+      const policy = (policies[name] ||= { confirm: false, approvals: 0 });
+      if (approvals) {
+        policy.approvals = Math.max(policy.approvals, parseInt(approvals[1]));
+      } else {
+        policy.confirm = true;
+      }
+    }
+  }
+  return policies;
+}
+
 export const config = {
+  // Recorded with every execution; APP_VERSION can carry e.g. a commit SHA
+  appVersion: process.env.APP_VERSION || packageJson.version,
   databases: {
-    staging: process.env.STAGING_DB_URL || "",
-    production: process.env.PROD_DB_URL || "",
     audit: process.env.AUDIT_DB_URL || "",
   },
+  environments: loadEnvironments(),
   github: {
     token: process.env.GITHUB_TOKEN || "",
     repo: process.env.GITHUB_REPO || "",
@@ -22,14 +251,57 @@ export const config = {
         "http://localhost:3000/auth/github/callback",
     },
   },
+  execution: {
+    // Rows of an UPDATE/DELETE captured before it runs (0 disables capture)
+    beforeImageMaxRows: parseInt(process.env.BEFORE_IMAGE_MAX_ROWS || "100000"),
+    // Batches a -- Batch script may run before it is stopped as runaway
+    // (0 for no limit)
+    batchMaxBatches: parseInt(process.env.BATCH_MAX_BATCHES || "10000"),
+  },
+  // Weekly windows scheduled executions can target, in the server's local
+  // time, e.g. "Sun 02:00-04:00, Wed 01:00-02:00"
+  maintenanceWindows: process.env.MAINTENANCE_WINDOWS || "",
+  worker: {
+    // How often the background worker looks for queued executions
+    pollIntervalMs: parseInt(process.env.WORKER_POLL_INTERVAL_MS || "2000"),
+    // Running jobs without a heartbeat for this long are marked interrupted
+    staleAfterMs: parseInt(process.env.WORKER_STALE_AFTER_MS || "60000"),
+  },
   minApprovals: parseInt(process.env.MIN_APPROVALS || "2"),
+  riskPolicy: loadRiskPolicy(),
   sessionSecret:
     process.env.SESSION_SECRET || "dev-secret-change-in-production",
 };
 
+// Look up a configured environment by name
+export function getEnvironment(name: string): EnvironmentConfig | undefined {
+  return config.environments.find((env) => env.name === name);
+}
+
+// The environments as the UI sees them (no connection details)
+export function environmentInfo(): EnvironmentInfo[] {
+  return config.environments.map(
+    ({ name, label, driver, requires, protected: p, group }) => ({
+      name,
+      label,
+      driver,
+      requires,
+      protected: p,
+      group: group !== undefined,
+    })
+  );
+}
+
 // Validate required config
 export function validateConfig() {
-  const required = ["AUDIT_DB_URL", "GITHUB_TOKEN", "GITHUB_REPO"];
+  const required = [
+    "AUDIT_DB_URL",
+    "GITHUB_TOKEN",
+    "GITHUB_REPO",
+    ...config.environments
+      .filter((env) => !env.group)
+      .map((env) => `${envPrefix(env.name)}_DB_URL`),
+  ];
 
   const missing = required.filter((key) => !process.env[key]);
 
@@ -39,3 +311,24 @@ export function validateConfig() {
     );
   }
 }
+
+// Parse a duration such as "30s", "5m", "500ms", "1h" or a plain number of
+// seconds into milliseconds. Returns null for anything unparseable.
+export function parseDuration(value: string): number | null {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+(?:\.\d+)?)\s*(ms|s|sec|m|min|h)?$/);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1]);
+  const multipliers: { [unit: string]: number } = {
+    ms: 1,
+    s: 1000,
+    sec: 1000,
+    m: 60_000,
+    min: 60_000,
+    h: 3_600_000,
+  };
+  return Math.round(amount * multipliers[match[2] || "s"]);
+}
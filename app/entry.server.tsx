@@ -4,6 +4,7 @@ import { createReadableStreamFromReadable } from "@react-router/node";
 import { ServerRouter } from "react-router";
 import { renderToPipeableStream } from "react-dom/server";
 import { initializeSchema, testConnections } from "./lib/db.server";
+import { startExecutionWorker } from "./lib/jobs.server";
 import { validateConfig } from "./config.server";
 
 const ABORT_DELAY = 5_000;
@@ -30,9 +31,11 @@ console.error = (...args: any[]) => {
   originalConsoleError.apply(console, args);
 };
 
-// Initialize database on server start
+// Initialize database on server start, then start picking up queued executions
 validateConfig();
-initializeSchema().then(() => testConnections());
+initializeSchema()
+  .then(() => testConnections())
+  .then(() => startExecutionWorker());
 
 export default function handleRequest(
   request: Request,
@@ -0,0 +1,178 @@
+import { pools } from "./db.server";
+import type { ResultSink } from "./db.server";
+import type { ResultArtifact } from "./types";
+
+// Stores full result sets and before images in the audit database. Rows are
+// kept as JSON arrays in column order, one chunk per cursor batch.
+export const artifactSink: ResultSink = {
+  async create(statementIndex, columns, beforeImage) {
+    const result = await pools.audit.query(
+      `INSERT INTO execution_artifacts
+       (statement_index, kind, table_name, primary_key, command, columns)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [
+        statementIndex,
+        beforeImage ? "before_image" : "result",
+        beforeImage?.table ?? null,
+        beforeImage ? JSON.stringify(beforeImage.primaryKey) : null,
+        beforeImage?.command ?? null,
+        JSON.stringify(columns),
+      ]
+    );
+    return result.rows[0].id;
+  },
+
+  async append(artifactId, seq, rows) {
+    await pools.audit.query(
+      `INSERT INTO execution_artifact_chunks (artifact_id, seq, rows)
+       VALUES ($1, $2, $3)`,
+      [artifactId, seq, JSON.stringify(rows)]
+    );
+  },
+
+  async finish(artifactId, rowCount, truncated = false) {
+    await pools.audit.query(
+      `UPDATE execution_artifacts
+       SET row_count = $2, truncated = $3, complete = true
+       WHERE id = $1`,
+      [artifactId, rowCount, truncated]
+    );
+  },
+};
+
+// Attach an execution's artifacts to its audit log entry
+export async function linkArtifacts(
+  artifactIds: number[],
+  executionLogId: number
+): Promise<void> {
+  if (artifactIds.length === 0) return;
+  try {
+    await pools.audit.query(
+      `UPDATE execution_artifacts SET execution_log_id = $2
+       WHERE id = ANY($1::int[])`,
+      [artifactIds, executionLogId]
+    );
+  } catch (error) {
+    console.error("Error linking result artifacts:", error);
+  }
+}
+
+// Get artifact by ID, with the name of the script that produced it
+export async function getArtifactById(
+  id: number
+): Promise<ResultArtifact | null> {
+  try {
+    const result = await pools.audit.query(
+      `SELECT a.*, l.script_name
+       FROM execution_artifacts a
+       LEFT JOIN sql_execution_log l ON l.id = a.execution_log_id
+       WHERE a.id = $1`,
+      [id]
+    );
+    return result.rows[0] || null;
+  } catch (error) {
+    console.error("Error fetching artifact:", error);
+    return null;
+  }
+}
+
+// Read an artifact's rows one chunk at a time, so downloads never hold the
+// whole result set in memory
+export async function* readArtifactChunks(
+  artifactId: number
+): AsyncGenerator<any[][]> {
+  for (let seq = 0; ; seq++) {
+    const result = await pools.audit.query(
+      `SELECT rows FROM execution_artifact_chunks
+       WHERE artifact_id = $1 AND seq = $2`,
+      [artifactId, seq]
+    );
+    if (result.rows.length === 0) return;
+    yield result.rows[0].rows;
+  }
+}
+
+// Format one row as a CSV line (RFC 4180 quoting)
+export function toCSVLine(values: unknown[]): string {
+  return (
+    values
+      .map((value) => {
+        if (value === null || value === undefined) return "";
+        const text =
+          typeof value === "object" ? JSON.stringify(value) : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(",") + "\r\n"
+  );
+}
+
+// Format one row as an NDJSON line keyed by column name
+export function toNDJSONLine(columns: string[], values: unknown[]): string {
+  return (
+    JSON.stringify(
+      Object.fromEntries(columns.map((column, i) => [column, values[i]]))
+    ) + "\n"
+  );
+}
+
+// Quote an identifier for generated SQL
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// Build the restore script for one chunk of a before image. Deleted rows are
+// re-inserted; updated rows are written back by primary key. The image table
+// name is already SQL as written in the script, so it is used verbatim.
+function restoreChunkSQL(artifact: ResultArtifact, rows: any[][]): string {
+  const table = artifact.table_name!;
+  const records = JSON.stringify(
+    rows.map((values) =>
+      Object.fromEntries(
+        artifact.columns.map((column, i) => [column, values[i]])
+      )
+    )
+  ).replace(/'/g, "''");
+  const source = `jsonb_populate_recordset(NULL::${table}, '${records}'::jsonb)`;
+
+  const primaryKey = artifact.primary_key || [];
+  const assignments = artifact.columns
+    .filter((column) => !primaryKey.includes(column))
+    .map((column) => `${quoteIdent(column)} = r.${quoteIdent(column)}`)
+    .join(", ");
+
+  // Key-only tables have nothing to write back, so they are re-inserted too
+  if (
+    artifact.command === "DELETE" ||
+    (primaryKey.length > 0 && !assignments)
+  ) {
+    return `INSERT INTO ${table}\nSELECT * FROM ${source}\nON CONFLICT DO NOTHING;\n\n`;
+  }
+
+  if (primaryKey.length === 0) {
+    return `-- ${table} has no primary key: match these rows up by hand\nSELECT * FROM ${source};\n\n`;
+  }
+  const match = primaryKey
+    .map((column) => `cur.${quoteIdent(column)} = r.${quoteIdent(column)}`)
+    .join(" AND ");
+  return `UPDATE ${table} AS cur\nSET ${assignments}\nFROM ${source} AS r\nWHERE ${match};\n\n`;
+}
+
+// Stream a before image as a SQL script that puts the rows back
+export async function* restoreScript(
+  artifact: ResultArtifact
+): AsyncGenerator<string> {
+  yield `-- Restore script for ${artifact.command} on ${artifact.table_name}\n` +
+    `-- ${artifact.script_name || "Unknown script"}, execution #${
+      artifact.execution_log_id
+    }, statement ${artifact.statement_index + 1}\n` +
+    `-- ${artifact.row_count} row(s) captured before the statement ran\n`;
+  if (artifact.truncated) {
+    yield "-- WARNING: the before image was truncated; rows past the limit are not restored\n";
+  }
+  yield "\nBEGIN;\n\n";
+  for await (const rows of readArtifactChunks(artifact.id)) {
+    yield restoreChunkSQL(artifact, rows);
+  }
+  yield "COMMIT;\n";
+}
@@ -1,68 +1,149 @@
 import { pools } from "./db.server";
+import { getEnvironment } from "~/config.server";
+import { analyzeRisk } from "./risk";
+import type {
+  AssertionResult,
+  DriftAcknowledgement,
+  ExecutionStatus,
+  ParamValues,
+  QueryPlan,
+  ServerNotice,
+  ExecutionContext,
+  StatementResult,
+  TableSchema,
+} from "./types";
 
 export interface LogExecutionData {
   scriptName: string;
   scriptContent: string;
   executedBy: string;
-  targetDatabase: "staging" | "production";
-  status: "success" | "error";
+  targetDatabase: string;
+  targetMember?: string;
+  scheduledFor?: Date | null;
+  readOnly?: boolean;
+  readReplica?: boolean;
+  runAs?: string;
+  notices?: ServerNotice[];
+  executionContext?: ExecutionContext;
+  assertions?: AssertionResult[];
+  schemaSnapshot?: TableSchema[];
+  schemaDrift?: DriftAcknowledgement | null;
+  status: ExecutionStatus;
   rowsAffected?: number;
   errorMessage?: string;
   executionTimeMs?: number;
   githubPrUrl?: string;
   approvers?: string[];
   resultData?: any[];
+  statementResults?: StatementResult[];
+  statementTimeoutMs?: number;
+  lockTimeoutMs?: number;
+  cancelledBy?: string;
+  cancelledAt?: Date;
+  queryPlan?: QueryPlan | null;
+  expectedRowsMin?: number;
+  expectedRowsMax?: number;
+  batchSize?: number;
+  batchCount?: number;
+  revertsExecutionId?: number;
+  parameters?: ParamValues | null;
 }
 
-// Log SQL execution to audit table
-export async function logExecution(data: LogExecutionData): Promise<void> {
+// Log SQL execution to audit table, returning the new log entry's id
+export async function logExecution(
+  data: LogExecutionData
+): Promise<number | null> {
   try {
-    await pools.audit.query(
+    const result = await pools.audit.query(
       `INSERT INTO sql_execution_log 
        (script_name, script_content, executed_by, target_database, 
         status, rows_affected, error_message, execution_time_ms, 
-        github_pr_url, approvers, result_data)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        github_pr_url, approvers, result_data, statement_results,
+        statement_timeout_ms, lock_timeout_ms, cancelled_by, cancelled_at,
+        query_plan, expected_rows_min, expected_rows_max, batch_size,
+        batch_count, reverts_execution_id, parameters, target_member,
+        scheduled_for, read_only, read_replica, run_as, notices,
+        execution_context, assertions, schema_snapshot, schema_drift)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14,
+               $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26,
+               $27, $28, $29, $30, $31, $32, $33)
+       RETURNING id`,
       [
         data.scriptName,
         data.scriptContent,
         data.executedBy,
         data.targetDatabase,
         data.status,
-        data.rowsAffected || null,
+        data.rowsAffected ?? null,
         data.errorMessage || null,
         data.executionTimeMs || null,
         data.githubPrUrl || null,
         data.approvers ? JSON.stringify(data.approvers) : null,
         data.resultData ? JSON.stringify(data.resultData) : null,
+        data.statementResults ? JSON.stringify(data.statementResults) : null,
+        data.statementTimeoutMs ?? null,
+        data.lockTimeoutMs ?? null,
+        data.cancelledBy || null,
+        data.cancelledAt || null,
+        data.queryPlan ? JSON.stringify(data.queryPlan) : null,
+        data.expectedRowsMin ?? null,
+        data.expectedRowsMax ?? null,
+        data.batchSize ?? null,
+        data.batchCount ?? null,
+        data.revertsExecutionId ?? null,
+        data.parameters ? JSON.stringify(data.parameters) : null,
+        data.targetMember || null,
+        data.scheduledFor || null,
+        data.readOnly ?? null,
+        data.readReplica ?? null,
+        data.runAs || null,
+        data.notices && data.notices.length > 0
+          ? JSON.stringify(data.notices)
+          : null,
+        data.executionContext ? JSON.stringify(data.executionContext) : null,
+        data.assertions && data.assertions.length > 0
+          ? JSON.stringify(data.assertions)
+          : null,
+        data.schemaSnapshot ? JSON.stringify(data.schemaSnapshot) : null,
+        data.schemaDrift ? JSON.stringify(data.schemaDrift) : null,
       ]
     );
     // Logged silently - execution details are in database
+    return result.rows[0]?.id ?? null;
   } catch (error) {
     console.error(`❌ Error logging execution of ${data.scriptName}:`, error);
+    return null;
   }
 }
 
-// Add approved script to database
+// Add approved script to database, with the static risk findings of the
+// script and of its rollback
 export async function addApprovedScript(data: {
   scriptName: string;
   scriptContent: string;
-  targetDatabase: "staging" | "production";
+  targetDatabase: string;
   githubPrUrl: string;
   approvers: string[];
   directProd?: boolean;
+  repeatable?: boolean;
+  rollbackContent?: string | null;
 }): Promise<boolean> {
+  const dialect = getEnvironment(data.targetDatabase)?.driver;
   try {
     await pools.audit.query(
       `INSERT INTO approved_scripts 
-       (script_name, script_content, target_database, github_pr_url, approvers, direct_prod)
-       VALUES ($1, $2, $3, $4, $5, $6)
+       (script_name, script_content, target_database, github_pr_url, approvers, direct_prod, rollback_content, repeatable, risk_findings, rollback_risk_findings)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
        ON CONFLICT (script_name) 
        DO UPDATE SET 
          script_content = EXCLUDED.script_content,
          github_pr_url = EXCLUDED.github_pr_url,
          approvers = EXCLUDED.approvers,
          direct_prod = EXCLUDED.direct_prod,
+         rollback_content = EXCLUDED.rollback_content,
+         repeatable = EXCLUDED.repeatable,
+         risk_findings = EXCLUDED.risk_findings,
+         rollback_risk_findings = EXCLUDED.rollback_risk_findings,
          approved_at = NOW()`,
       [
         data.scriptName,
@@ -71,6 +152,12 @@ export async function addApprovedScript(data: {
         data.githubPrUrl,
         JSON.stringify(data.approvers),
         data.directProd || false,
+        data.rollbackContent || null,
+        data.repeatable || false,
+        JSON.stringify(analyzeRisk(data.scriptContent, dialect)),
+        data.rollbackContent
+          ? JSON.stringify(analyzeRisk(data.rollbackContent, dialect))
+          : null,
       ]
     );
     // Script added - logged by caller
@@ -0,0 +1,184 @@
+import { getArtifactById, readArtifactChunks } from "./artifacts.server";
+import type {
+  ComparedResult,
+  ExecutionLog,
+  ResultComparison,
+  StatementResult,
+} from "./types";
+
+// Rows loaded per side; larger results are compared on their first rows
+const MAX_COMPARE_ROWS = 50_000;
+// Rows listed per kind of difference
+const MAX_LISTED_ROWS = 100;
+
+type Row = Record<string, unknown>;
+
+// Statements of an execution that returned rows (stored in full or as a
+// preview)
+export function resultStatements(entry: ExecutionLog): StatementResult[] {
+  return (entry.statement_results || []).filter(
+    (statement) =>
+      statement.artifactId !== undefined ||
+      (statement.rows && statement.rows.length > 0)
+  );
+}
+
+// A statement's rows as objects: the full stored result set when there is
+// one, otherwise the preview kept in the audit log
+async function loadRows(
+  statement: StatementResult
+): Promise<{ columns: string[]; rows: Row[]; complete: boolean }> {
+  if (statement.artifactId !== undefined) {
+    const artifact = await getArtifactById(statement.artifactId);
+    if (artifact?.complete) {
+      const rows: Row[] = [];
+      for await (const chunk of readArtifactChunks(artifact.id)) {
+        for (const values of chunk) {
+          if (rows.length >= MAX_COMPARE_ROWS) {
+            return { columns: artifact.columns, rows, complete: false };
+          }
+          rows.push(
+            Object.fromEntries(
+              artifact.columns.map((column, i) => [column, values[i]])
+            )
+          );
+        }
+      }
+      return { columns: artifact.columns, rows, complete: true };
+    }
+  }
+
+  const rows = statement.rows || [];
+  return {
+    columns: Object.keys(rows[0] || {}),
+    rows,
+    complete: rows.length >= (statement.rowCount ?? 0),
+  };
+}
+
+// Rows by key value; rows repeating a key are counted, not kept
+function indexRows(
+  rows: Row[],
+  key: string
+): { byKey: Map<string, Row>; duplicates: number } {
+  const byKey = new Map<string, Row>();
+  let duplicates = 0;
+  for (const row of rows) {
+    const value = valueOf(row[key]);
+    if (byKey.has(value)) duplicates++;
+    else byKey.set(value, row);
+  }
+  return { byKey, duplicates };
+}
+
+// Comparable form of a value (JSON keeps numbers, strings and objects apart)
+function valueOf(value: unknown): string {
+  return JSON.stringify(value ?? null);
+}
+
+// Compare what a statement returned in two executions of the same script:
+// row counts, columns on one side only, and rows matched on a key column
+// (default: id, else the first shared column). Returns null when either
+// execution has no result for the statement.
+export async function compareResults(
+  left: ExecutionLog,
+  right: ExecutionLog,
+  statementIndex: number,
+  key?: string | null
+): Promise<ResultComparison | null> {
+  const leftStatement = resultStatements(left).find(
+    (statement) => statement.index === statementIndex
+  );
+  const rightStatement = resultStatements(right).find(
+    (statement) => statement.index === statementIndex
+  );
+  if (!leftStatement || !rightStatement) return null;
+
+  const leftRows = await loadRows(leftStatement);
+  const rightRows = await loadRows(rightStatement);
+  const shared = leftRows.columns.filter((column) =>
+    rightRows.columns.includes(column)
+  );
+  const keyColumn =
+    key && shared.includes(key)
+      ? key
+      : shared.includes("id")
+      ? "id"
+      : shared[0] ?? null;
+
+  const side = (
+    entry: ExecutionLog,
+    statement: StatementResult,
+    loaded: { columns: string[]; rows: Row[] }
+  ): ComparedResult => ({
+    executionId: entry.id,
+    target: entry.target_database,
+    member: entry.target_member ?? null,
+    executedAt: entry.executed_at,
+    columns: loaded.columns,
+    rowCount: statement.rowCount ?? loaded.rows.length,
+    loaded: loaded.rows.length,
+  });
+
+  const comparison: ResultComparison = {
+    statement: statementIndex,
+    left: side(left, leftStatement, leftRows),
+    right: side(right, rightStatement, rightRows),
+    rowDelta:
+      (rightStatement.rowCount ?? rightRows.rows.length) -
+      (leftStatement.rowCount ?? leftRows.rows.length),
+    onlyLeft: leftRows.columns.filter(
+      (column) => !rightRows.columns.includes(column)
+    ),
+    onlyRight: rightRows.columns.filter(
+      (column) => !leftRows.columns.includes(column)
+    ),
+    key: keyColumn,
+    complete: leftRows.complete && rightRows.complete,
+    added: [],
+    removed: [],
+    changed: [],
+    counts: { added: 0, removed: 0, changed: 0, same: 0 },
+    duplicateKeys: 0,
+  };
+  if (!keyColumn) return comparison;
+
+  const leftIndex = indexRows(leftRows.rows, keyColumn);
+  const rightIndex = indexRows(rightRows.rows, keyColumn);
+  comparison.duplicateKeys = leftIndex.duplicates + rightIndex.duplicates;
+
+  for (const [value, row] of rightIndex.byKey) {
+    const before = leftIndex.byKey.get(value);
+    if (!before) {
+      comparison.counts.added++;
+      if (comparison.added.length < MAX_LISTED_ROWS) {
+        comparison.added.push(row);
+      }
+      continue;
+    }
+    const columns = shared.filter(
+      (column) => valueOf(before[column]) !== valueOf(row[column])
+    );
+    if (columns.length === 0) {
+      comparison.counts.same++;
+      continue;
+    }
+    comparison.counts.changed++;
+    if (comparison.changed.length < MAX_LISTED_ROWS) {
+      comparison.changed.push({
+        key: row[keyColumn],
+        columns,
+        left: before,
+        right: row,
+      });
+    }
+  }
+  for (const [value, row] of leftIndex.byKey) {
+    if (rightIndex.byKey.has(value)) continue;
+    comparison.counts.removed++;
+    if (comparison.removed.length < MAX_LISTED_ROWS) {
+      comparison.removed.push(row);
+    }
+  }
+  return comparison;
+}
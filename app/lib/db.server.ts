@@ -1,14 +1,147 @@
 import { Pool } from "pg";
-import { config } from "~/config.server";
-import type { ExecutionResult, ApprovedScript, ExecutionLog } from "./types";
+import {
+  config,
+  parseDuration,
+  getEnvironment,
+  envPrefix,
+  inferDriver,
+} from "~/config.server";
+import type { GroupMember } from "~/config.server";
+import { createDriver } from "./drivers.server";
+import type {
+  DatabaseDriver,
+  DriverConnection,
+  DriverNotice,
+} from "./drivers.server";
+import { parseSQLMetadata, validateHeaderPlacement } from "./github.server";
+import type {
+  ExecutionResult,
+  ApprovedScript,
+  ExecutionLog,
+  StatementResult,
+  StatementPlan,
+  ExecutionProgress,
+  BeforeImage,
+  ScriptParam,
+  RiskFinding,
+  ParamValues,
+  ServerNotice,
+  ExecutionContext,
+  AssertionResult,
+  DriverName,
+  TableSchema,
+} from "./types";
+import {
+  splitStatements,
+  leadingKeywords,
+  isTransactionControl,
+  requiresAutocommit,
+  isExplainable,
+  namedPlaceholders,
+  replacePlaceholders,
+  beforeImageQuery,
+  positionAt,
+  isReadOnlyStatement,
+  changesRole,
+  classifyStatement,
+  referencedTables,
+} from "./sql";
+import type { SQLStatement } from "./sql";
+import { parseParams, validateParams, bindParams } from "./params";
+import { analyzeRisk } from "./risk";
 
-// Initialize connection pools
+// The audit database is always Postgres
 export const pools = {
-  staging: new Pool({ connectionString: config.databases.staging }),
-  production: new Pool({ connectionString: config.databases.production }),
   audit: new Pool({ connectionString: config.databases.audit }),
 };
 
+// A driver per environment, for the engine its config picks (target groups
+// get one per member instead)
+const drivers: Record<string, DatabaseDriver> = Object.fromEntries(
+  config.environments
+    .filter((env) => !env.group)
+    .map((env) => [env.name, createDriver(env.driver, env.databaseUrl)])
+);
+
+// Read-only drivers (e.g. replicas) for environments that configure one
+const readOnlyDrivers: Record<string, DatabaseDriver> = Object.fromEntries(
+  config.environments
+    .filter((env) => env.readOnlyUrl && !env.group)
+    .map((env) => [env.name, createDriver(env.driver, env.readOnlyUrl!)])
+);
+
+// Drivers of target group members, by connection string. Kept small: a group
+// can have dozens of members, each running one script at a time.
+const memberDrivers = new Map<string, DatabaseDriver>();
+
+function memberDriver(member: GroupMember, name: DriverName): DatabaseDriver {
+  let driver = memberDrivers.get(member.url);
+  if (!driver) {
+    driver = createDriver(name, member.url, { max: 2 });
+    memberDrivers.set(member.url, driver);
+  }
+  return driver;
+}
+
+// Driver to run against: a group member's, the environment's read-only
+// driver, or the environment's own
+function targetDriver(
+  target: string,
+  member?: GroupMember,
+  replica = false
+): DatabaseDriver | undefined {
+  if (member) {
+    return memberDriver(
+      member,
+      getEnvironment(target)?.driver ?? inferDriver(member.url)
+    );
+  }
+  return replica ? readOnlyDrivers[target] : drivers[target];
+}
+
+// Members of a target group: the configured list plus whatever the discovery
+// query returns right now, with the canary first
+export async function resolveMembers(
+  environment: string
+): Promise<GroupMember[]> {
+  const group = getEnvironment(environment)?.group;
+  if (!group) return [];
+
+  const members = [...group.members];
+  if (group.discoveryQuery) {
+    const result = group.discoveryUrl
+      ? await memberDriver(
+          { name: "discovery", url: group.discoveryUrl },
+          inferDriver(group.discoveryUrl)
+        ).query(group.discoveryQuery)
+      : await pools.audit.query(group.discoveryQuery);
+    for (const row of result.rows) {
+      if (!row.name || !row.url) {
+        throw new Error(
+          `Discovery query for ${environment} must return name and url columns`
+        );
+      }
+      if (!members.some((member) => member.name === String(row.name))) {
+        members.push({ name: String(row.name), url: String(row.url) });
+      }
+    }
+  }
+
+  if (members.length === 0) {
+    throw new Error(`Target group ${environment} has no members`);
+  }
+  if (group.canary) {
+    const canary = members.find((member) => member.name === group.canary);
+    if (!canary) {
+      throw new Error(
+        `Canary ${group.canary} is not a member of ${environment}`
+      );
+    }
+    return [canary, ...members.filter((member) => member !== canary)];
+  }
+  return members;
+}
+
 // Test database connections on startup
 export async function testConnections() {
   try {
@@ -16,66 +149,909 @@ export async function testConnections() {
       await pools.audit.query("SELECT NOW()");
       console.log("✓ Audit database connected");
     }
-    if (config.databases.staging) {
-      await pools.staging.query("SELECT NOW()");
-      console.log("✓ Staging database connected");
-    }
-    if (config.databases.production) {
-      await pools.production.query("SELECT NOW()");
-      console.log("✓ Production database connected");
+    for (const env of config.environments) {
+      if (env.group) {
+        const members = await resolveMembers(env.name);
+        console.log(`✓ ${env.label} target group: ${members.length} members`);
+      } else if (env.databaseUrl) {
+        await drivers[env.name].query("SELECT 1");
+        console.log(`✓ ${env.label} database connected (${env.driver})`);
+      }
     }
   } catch (error) {
     console.error("Database connection error:", error);
   }
 }
 
-// Execute SQL against target database
-export async function executeSQL(
-  target: "staging" | "production",
+export interface ExecuteOptions {
+  // Run the script inside BEGIN ... ROLLBACK so nothing is persisted
+  dryRun?: boolean;
+  // Shared with whoever can cancel the execution while it runs
+  control?: ExecutionControl;
+  // Where full SELECT results are streamed; without one only the preview is kept
+  resultSink?: ResultSink;
+  // Values for the script's -- Param declarations, by name
+  params?: ParamValues;
+  // Script whose -- Param declarations apply, when not the SQL itself
+  paramsDeclaredIn?: string;
+  // Target group member to run against (the target is then a group)
+  member?: GroupMember;
+}
+
+// Receives the complete rows of row-returning statements (and before images
+// of UPDATE/DELETE statements), chunk by chunk
+export interface ResultSink {
+  create(
+    statementIndex: number,
+    columns: string[],
+    beforeImage?: { table: string; primaryKey: string[]; command: string }
+  ): Promise<number>;
+  append(artifactId: number, seq: number, rows: any[][]): Promise<void>;
+  finish(
+    artifactId: number,
+    rowCount: number,
+    truncated?: boolean
+  ): Promise<void>;
+}
+
+// Cancellation state for a running execution. The caller sets cancelledBy;
+// executeSQL reports the backend PID and stops before the next statement.
+export interface ExecutionControl {
+  cancelledBy?: string;
+  cancelledAt?: Date;
+  // replica: the backend runs on the environment's read-only pool
+  onBackendPid?: (pid: number, replica: boolean) => Promise<void>;
+  // Re-read cancellation state after a failure, so a cancel that interrupted
+  // a statement is reported as a cancellation rather than an error
+  refresh?: () => Promise<void>;
+  // Called after every committed batch of a -- Batch script
+  onProgress?: (progress: ExecutionProgress) => Promise<void>;
+}
+
+// Signal the backend running an execution: cancel its current statement, or
+// with terminate end the whole connection
+export async function signalBackend(
+  target: string,
+  backendPid: number,
+  options: { terminate?: boolean; member?: GroupMember; replica?: boolean } = {}
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const driver = targetDriver(target, options.member, options.replica);
+    if (!driver) {
+      return { success: false, error: `No connection pool for ${target}` };
+    }
+    const signalled = await driver.cancel(
+      backendPid,
+      options.terminate === true
+    );
+    if (!signalled) {
+      return {
+        success: false,
+        error: `Backend ${backendPid} could not be signalled`,
+      };
+    }
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error signalling backend:", error);
+    return { success: false, error: error.message || "Cancel failed" };
+  }
+}
+
+// Max rows kept per statement (and in result_data) to avoid storing huge result sets
+const MAX_RESULT_ROWS = 100;
+
+// Server notices kept per execution (a RAISE NOTICE in a loop can send many)
+const MAX_NOTICES = 1000;
+
+// Resolve statement and lock timeouts (ms) for an execution: script headers
+// win, otherwise the target database's configured defaults apply
+export function resolveTimeouts(
+  target: string,
+  sql: string
+): { statement: number; lock: number } {
+  const metadata = parseSQLMetadata(sql);
+  const env = getEnvironment(target);
+  if (!env) {
+    throw new Error(`Unknown environment "${target}"`);
+  }
+  const defaults = env.timeouts;
+
+  const resolve = (value: string, source: string) => {
+    const ms = parseDuration(value);
+    if (ms === null) {
+      throw new Error(`Invalid ${source} value "${value}" (use e.g. 30s, 5m)`);
+    }
+    return ms;
+  };
+
+  return {
+    statement: metadata.timeout
+      ? resolve(metadata.timeout, "-- Timeout")
+      : resolve(defaults.statement, `${target} statement timeout`),
+    lock: metadata.lockTimeout
+      ? resolve(metadata.lockTimeout, "-- LockTimeout")
+      : resolve(defaults.lock, `${target} lock timeout`),
+  };
+}
+
+// The -- RunAs role, which must be in the environment's <PREFIX>_ROLES
+// allowlist
+export function resolveRunAs(target: string, sql: string): string | undefined {
+  const role = parseSQLMetadata(sql).runAs;
+  if (role === undefined) return undefined;
+  if (!role) {
+    throw new Error("-- RunAs needs a role (use e.g. -- RunAs: app_migrator)");
+  }
+  const env = getEnvironment(target);
+  if (!env) {
+    throw new Error(`Unknown environment "${target}"`);
+  }
+  if (!env.roles.includes(role)) {
+    throw new Error(
+      `-- RunAs: ${role} is not allowed on ${target} (allowed: ${
+        env.roles.join(", ") || "none"
+      }; see ${envPrefix(target)}_ROLES)`
+    );
+  }
+  return role;
+}
+
+// Parse the -- ExpectedRows header ("120" or "100-150") into an inclusive range
+export function resolveExpectedRows(
+  sql: string
+): { min: number; max: number } | undefined {
+  const value = parseSQLMetadata(sql).expectedRows;
+  if (value === undefined) return undefined;
+
+  const match = value.match(/^(\d+)\s*(?:-\s*(\d+))?$/);
+  if (!match) {
+    throw new Error(
+      `Invalid -- ExpectedRows value "${value}" (use e.g. 120 or 100-150)`
+    );
+  }
+  const min = parseInt(match[1]);
+  const max = match[2] !== undefined ? parseInt(match[2]) : min;
+  if (max < min) {
+    throw new Error(`Invalid -- ExpectedRows range "${value}"`);
+  }
+  return { min, max };
+}
+
+// The script's -- Assert before/after checks, not yet evaluated
+export function resolveAssertions(sql: string): AssertionResult[] {
+  return (parseSQLMetadata(sql).assertions || []).map((assertion) => {
+    if (!assertion.sql) {
+      throw new Error(
+        `Empty -- Assert ${assertion.phase} (use e.g. -- Assert ${assertion.phase}: SELECT count(*) = 0 FROM ...)`
+      );
+    }
+    return { ...assertion, passed: null };
+  });
+}
+
+// Parse the script's -- Param declarations
+export function resolveParams(sql: string): ScriptParam[] {
+  return parseParams(parseSQLMetadata(sql).params || []);
+}
+
+// Validate parameter values against a script's declarations
+function resolveParamValues(
+  declared: ScriptParam[],
+  params: ParamValues | undefined
+): ParamValues {
+  const { values, errors } = validateParams(declared, params || {});
+  if (errors.length > 0) {
+    throw new Error(`Invalid parameters: ${errors.join("; ")}`);
+  }
+  return values;
+}
+
+// Whether a script runs read-only. Only a -- ReadOnly header enforces it: a
+// SELECT can still write through a function (setval, pg_terminate_backend,
+// ...), so scripts of plain queries are only reported as detected
+// (-- ReadOnly: false silences that)
+export function resolveReadOnly(sql: string): {
+  readOnly: boolean;
+  detected: boolean;
+} {
+  const declared = parseSQLMetadata(sql).readOnly;
+  if (declared !== undefined) {
+    return { readOnly: declared, detected: false };
+  }
+  const statements = splitStatements(sql);
+  return {
+    readOnly: false,
+    detected:
+      statements.length > 0 &&
+      statements.every((statement) => isReadOnlyStatement(statement.text)),
+  };
+}
+
+// Parse the -- Batch and -- BatchSleep headers. A batch script is a single
+// DML statement run repeatedly with :batch_size bound to the batch size,
+// committing after each batch until it affects no rows.
+export function resolveBatch(
   sql: string
+): { size: number; sleepMs: number } | undefined {
+  const metadata = parseSQLMetadata(sql);
+  if (metadata.batch === undefined) return undefined;
+
+  const size = /^\d+$/.test(metadata.batch) ? parseInt(metadata.batch) : 0;
+  if (size <= 0) {
+    throw new Error(
+      `Invalid -- Batch value "${metadata.batch}" (use a row count, e.g. 5000)`
+    );
+  }
+
+  let sleepMs = 0;
+  if (metadata.batchSleep) {
+    const ms = parseDuration(metadata.batchSleep);
+    if (ms === null) {
+      throw new Error(
+        `Invalid -- BatchSleep value "${metadata.batchSleep}" (use e.g. 500ms, 2s)`
+      );
+    }
+    sleepMs = ms;
+  }
+  return { size, sleepMs };
+}
+
+// Raised between statements once a cancellation has been requested
+class ExecutionCancelledError extends Error {
+  constructor(cancelledBy: string) {
+    super(`Execution cancelled by ${cancelledBy}`);
+    this.name = "ExecutionCancelledError";
+  }
+}
+
+// Raised when an -- Assert check doesn't return true
+class AssertionFailedError extends Error {
+  constructor(assertion: AssertionResult) {
+    super(
+      `Assertion ${assertion.phase} failed: ${assertion.sql} ${
+        assertion.error
+          ? `raised an error: ${assertion.error}`
+          : `returned ${JSON.stringify(assertion.value ?? null)}`
+      }${
+        assertion.phase === "after"
+          ? "; all changes were rolled back"
+          : "; the script was not run"
+      }`
+    );
+    this.name = "AssertionFailedError";
+  }
+}
+
+// Evaluate the assertions of one phase in the script's transaction, recording
+// each outcome, and return the first that failed. A query error aborts the
+// transaction, so evaluation stops there.
+async function checkAssertions(
+  connection: DriverConnection,
+  assertions: AssertionResult[],
+  phase: AssertionResult["phase"],
+  bind: (text: string) => { text: string; values: (string | null)[] }
+): Promise<AssertionResult | undefined> {
+  let failed: AssertionResult | undefined;
+  for (const assertion of assertions) {
+    if (assertion.phase !== phase) continue;
+    try {
+      const query = bind(assertion.sql);
+      const result = await connection.query(query.text, query.values);
+      assertion.value = result.rows[0]
+        ? Object.values(result.rows[0])[0] ?? null
+        : null;
+      // MySQL and SQLite spell true as 1
+      assertion.passed = assertion.value === true || assertion.value === 1;
+    } catch (error: any) {
+      assertion.passed = false;
+      assertion.error = error.message || "Unknown error occurred";
+      return failed ?? assertion;
+    }
+    if (!assertion.passed && !failed) failed = assertion;
+  }
+  return failed;
+}
+
+// Server version, database, effective role and search_path of a configured
+// session, with the app version; null if they can't be read
+async function readExecutionContext(
+  connection: DriverConnection
+): Promise<ExecutionContext | null> {
+  try {
+    return { ...(await connection.context()), appVersion: config.appVersion };
+  } catch (error) {
+    console.error("Error reading execution context:", error);
+    return null;
+  }
+}
+
+// Tables the script references, as they are before it runs (drift checks
+// compare this with the next environment). A failed snapshot doesn't fail
+// the execution.
+async function snapshotSchema(
+  connection: DriverConnection,
+  sql: string,
+  dialect: DriverName
+): Promise<TableSchema[] | undefined> {
+  const tables = referencedTables(sql, dialect).map(
+    (reference) => reference.name
+  );
+  if (tables.length === 0) return undefined;
+  try {
+    return await connection.describeTables(tables);
+  } catch (error) {
+    console.error("Error capturing schema snapshot:", error);
+    return undefined;
+  }
+}
+
+// Run a row-returning statement, streaming every row to the sink and
+// keeping only the preview in memory
+async function streamStatement(
+  connection: DriverConnection,
+  statement: SQLStatement,
+  query: { text: string; values: (string | null)[] },
+  sink: ResultSink
+): Promise<{
+  command: string | null;
+  rowCount: number;
+  preview: any[];
+  artifactId?: number;
+}> {
+  const preview: any[] = [];
+  let artifactId: number | undefined;
+  let columns: string[] = [];
+  let seq = 0;
+
+  const { command, rowCount } = await connection.stream(
+    query.text,
+    query.values,
+    async (names) => {
+      columns = names;
+      artifactId = await sink.create(statement.index, columns);
+    },
+    async (rows) => {
+      for (const row of rows) {
+        if (preview.length >= MAX_RESULT_ROWS) break;
+        preview.push(
+          Object.fromEntries(columns.map((column, i) => [column, row[i]]))
+        );
+      }
+      await sink.append(artifactId!, seq++, rows);
+    }
+  );
+  if (artifactId !== undefined) {
+    await sink.finish(artifactId, rowCount);
+  }
+  return { command, rowCount, preview, artifactId };
+}
+
+// Thrown to stop reading a before image at the configured row limit
+class CaptureLimitReached extends Error {}
+
+// Capture the rows an UPDATE/DELETE is about to change, as Postgres JSON so
+// they can be restored exactly. Best effort: a failed capture is recorded on
+// the image but never fails the execution.
+async function captureBeforeImage(
+  connection: DriverConnection,
+  statement: SQLStatement,
+  sink: ResultSink,
+  inTransaction: boolean,
+  bind: (text: string) => { text: string; values: (string | null)[] }
+): Promise<BeforeImage | undefined> {
+  const capture = beforeImageQuery(statement.text);
+  if (!capture) return undefined;
+
+  const image: BeforeImage = {
+    table: capture.table,
+    primaryKey: [],
+    rowCount: 0,
+  };
+  if (!capture.query) {
+    image.error = capture.error;
+    return image;
+  }
+  const maxRows = config.execution.beforeImageMaxRows;
+
+  // A failed capture must not abort the script's transaction
+  if (inTransaction) await connection.query("SAVEPOINT before_image");
+  try {
+    const columnResult = await connection.query(
+      `SELECT attname FROM pg_attribute
+       WHERE attrelid = $1::regclass AND attnum > 0 AND NOT attisdropped
+       ORDER BY attnum`,
+      [capture.table]
+    );
+    const columns: string[] = columnResult.rows.map((row) => row.attname);
+    const keyResult = await connection.query(
+      `SELECT a.attname FROM pg_index i
+       JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+       WHERE i.indrelid = $1::regclass AND i.indisprimary
+       ORDER BY array_position(i.indkey::int2[], a.attnum)`,
+      [capture.table]
+    );
+    image.primaryKey = keyResult.rows.map((row) => row.attname);
+
+    const query = bind(capture.query);
+    let seq = 0;
+    try {
+      await connection.stream(
+        query.text,
+        query.values,
+        async () => {},
+        async (batch) => {
+          let rows = batch;
+          if (image.rowCount + rows.length > maxRows) {
+            rows = rows.slice(0, maxRows - image.rowCount);
+            image.truncated = true;
+          }
+
+          const values = rows.map(([row]) =>
+            columns.map((column) => row[column])
+          );
+          if (image.artifactId === undefined) {
+            image.artifactId = await sink.create(statement.index, columns, {
+              table: capture.table,
+              primaryKey: image.primaryKey,
+              command: capture.command,
+            });
+            image.rows = rows.slice(0, MAX_RESULT_ROWS).map(([row]) => row);
+          }
+          await sink.append(image.artifactId, seq++, values);
+          image.rowCount += rows.length;
+          if (image.truncated) throw new CaptureLimitReached();
+        }
+      );
+    } catch (error) {
+      if (!(error instanceof CaptureLimitReached)) throw error;
+    }
+    if (image.artifactId !== undefined) {
+      await sink.finish(image.artifactId, image.rowCount, image.truncated);
+    }
+
+    if (inTransaction) {
+      await connection.query("RELEASE SAVEPOINT before_image");
+    }
+  } catch (error: any) {
+    if (inTransaction) {
+      await connection.query("ROLLBACK TO SAVEPOINT before_image");
+    }
+    image.error = error.message || "Unknown error occurred";
+  }
+  return image;
+}
+
+// Execute SQL against target database, one statement at a time
+export async function executeSQL(
+  target: string,
+  sql: string,
+  options: ExecuteOptions = {}
 ): Promise<ExecutionResult> {
-  const pool = pools[target];
+  let driver = targetDriver(target, options.member);
+  const dryRun = options.dryRun === true;
   const start = Date.now();
+  // Statements are split following the lexical rules of the target's engine
+  const dialect = driver?.name ?? "postgres";
+  const statements = splitStatements(sql, dialect);
+  const statementResults: StatementResult[] = statements.map((statement) => ({
+    index: statement.index,
+    sql: statement.text,
+    line: statement.line,
+    kind: classifyStatement(statement.text, dialect).kind,
+    status: "skipped",
+    command: null,
+    rowCount: null,
+    executionTime: null,
+  }));
+
+  // Run the whole script as one transaction (all-or-nothing) unless it
+  // manages its own transactions or has statements that can't run in one.
+  // Engines whose DDL commits implicitly (MySQL) can't undo a script with DDL.
+  const implicitCommit =
+    driver !== undefined &&
+    !driver.features.transactionalDDL &&
+    statementResults.some((entry) => entry.kind === "ddl");
+  const selfManaged =
+    implicitCommit ||
+    statements.some(
+      (s) => isTransactionControl(s.text, dialect) || requiresAutocommit(s.text)
+    );
+  let transactional = dryRun || !selfManaged;
+
+  let connection: DriverConnection | undefined;
+  let stopNotices: (() => void) | undefined;
+  let sessionConfigured = false;
+  let inTransaction = false;
+  let current: SQLStatement | undefined;
+  let timeouts: { statement: number; lock: number } | undefined;
+  let expectedRows: { min: number; max: number } | undefined;
+  let batch: { size: number; sleepMs: number } | undefined;
+  let batchCount = 0;
+  let batchRows = 0;
+  let params: ScriptParam[] = [];
+  let paramValues: ParamValues = {};
+  let readOnly: { replica: boolean } | undefined;
+  let runAs: string | undefined;
+  let context: ExecutionContext | undefined;
+  let assertions: AssertionResult[] = [];
+  let schemaSnapshot: TableSchema[] | undefined;
+  const control = options.control;
+
+  // NOTICE/WARNING messages, tagged with the statement that was running
+  const notices: ServerNotice[] = [];
+  const onNotice = (notice: DriverNotice) => {
+    if (notices.length >= MAX_NOTICES) return;
+    notices.push({ ...notice, statement: current ? current.index : null });
+  };
 
   try {
-    if (!pool) {
+    if (!driver) {
       throw new Error(`No connection pool available for ${target} database`);
     }
 
-    const result = await pool.query(sql);
-    const executionTime = Date.now() - start;
+    if (statements.length === 0) {
+      throw new Error("Script does not contain any SQL statements");
+    }
+
+    if (
+      dryRun &&
+      statements.some((s) => isTransactionControl(s.text, dialect))
+    ) {
+      throw new Error(
+        "Dry run is not available for scripts that manage their own transactions (BEGIN/COMMIT/ROLLBACK)"
+      );
+    }
+    if (dryRun && implicitCommit) {
+      throw new Error(
+        `Dry run is not available for scripts with DDL on ${driver.name} targets (DDL commits implicitly)`
+      );
+    }
+
+    validateHeaderPlacement(sql);
+    timeouts = resolveTimeouts(target, sql);
+    expectedRows = resolveExpectedRows(sql);
+    batch = resolveBatch(sql);
+    params = resolveParams(options.paramsDeclaredIn ?? sql);
+    paramValues = resolveParamValues(params, options.params);
+    const placeholders = driver.features.placeholders;
+    const bind = (text: string) =>
+      bindParams(text, params, paramValues, placeholders, dialect);
+    // A revert runs as the rollback script's role, or else the script's
+    runAs =
+      resolveRunAs(target, sql) ??
+      (options.paramsDeclaredIn
+        ? resolveRunAs(target, options.paramsDeclaredIn)
+        : undefined);
+    if (runAs && statements.some((s) => changesRole(s.text))) {
+      throw new Error("-- RunAs scripts can't change the role themselves");
+    }
+    if (runAs && !driver.features.roles) {
+      throw new Error(`-- RunAs isn't supported on ${driver.name} targets`);
+    }
+
+    if (batch) {
+      const [first] = leadingKeywords(statements[0].text, 1);
+      if (
+        statements.length !== 1 ||
+        !["UPDATE", "DELETE", "INSERT", "WITH"].includes(first)
+      ) {
+        throw new Error(
+          "-- Batch scripts must contain exactly one UPDATE, DELETE or INSERT statement"
+        );
+      }
+      if (
+        !namedPlaceholders(statements[0].text, dialect).some(
+          (p) => p.name === "batch_size"
+        )
+      ) {
+        throw new Error(
+          "-- Batch scripts must bound each batch with :batch_size (e.g. ... LIMIT :batch_size)"
+        );
+      }
+      if (expectedRows) {
+        throw new Error("-- ExpectedRows can't be combined with -- Batch");
+      }
+      // Every batch commits on its own; a dry run tries the first batch only
+      transactional = dryRun;
+    }
+
+    // The row count guard can only undo the script if it is one transaction
+    if (expectedRows && !transactional) {
+      throw new Error(
+        "-- ExpectedRows requires the script to run as a single transaction; remove its BEGIN/COMMIT and non-transactional statements"
+      );
+    }
+
+    // Assertions see the script's changes before they commit
+    assertions = resolveAssertions(sql);
+    if (assertions.length > 0) {
+      if (batch) {
+        throw new Error("-- Assert can't be combined with -- Batch");
+      }
+      if (!transactional) {
+        throw new Error(
+          "-- Assert requires the script to run as a single transaction; remove its BEGIN/COMMIT and non-transactional statements"
+        );
+      }
+    }
+
+    // -- ReadOnly scripts run as one READ ONLY transaction, on the
+    // environment's read-only pool when it has one
+    const readOnlyMode = resolveReadOnly(sql);
+    if (readOnlyMode.readOnly) {
+      if (batch) {
+        throw new Error("-- ReadOnly can't be combined with -- Batch");
+      }
+      if (!transactional) {
+        throw new Error(
+          "-- ReadOnly scripts run as a single read-only transaction; remove its BEGIN/COMMIT and non-transactional statements"
+        );
+      }
+      // Neither SET TRANSACTION READ WRITE nor transaction_read_only /
+      // default_transaction_read_only, in any form (SET, set_config)
+      if (
+        statements.some((statement) =>
+          /\bread\s+write\b|\b(default_)?transaction_read_only\b/i.test(
+            statement.text
+          )
+        )
+      ) {
+        throw new Error("-- ReadOnly scripts can't change the read-only mode");
+      }
+    }
+    if (readOnlyMode.readOnly) {
+      const replica = !options.member && readOnlyDrivers[target] !== undefined;
+      if (replica) driver = readOnlyDrivers[target];
+      readOnly = { replica };
+    }
+
+    connection = await driver.connect();
+    stopNotices = connection.onNotice(onNotice);
+    // Session settings apply to this execution only (reset on release)
+    sessionConfigured = true;
+    await connection.configure({
+      statementTimeoutMs: timeouts.statement,
+      lockTimeoutMs: timeouts.lock,
+      readOnly: readOnly !== undefined,
+      role: runAs,
+    });
+    context = (await readExecutionContext(connection)) ?? undefined;
+    schemaSnapshot = await snapshotSchema(connection, sql, dialect);
+
+    if (control?.onBackendPid && connection.backendId !== undefined) {
+      await control.onBackendPid(
+        connection.backendId,
+        readOnly?.replica === true
+      );
+    }
+
+    if (transactional) {
+      await connection.begin(readOnly !== undefined);
+      inTransaction = true;
+    }
+
+    const failedBefore = await checkAssertions(
+      connection,
+      assertions,
+      "before",
+      bind
+    );
+    if (failedBefore) throw new AssertionFailedError(failedBefore);
+
+    for (const statement of statements) {
+      if (control?.cancelledBy) {
+        throw new ExecutionCancelledError(control.cancelledBy);
+      }
+      current = statement;
+      const entry = statementResults[statement.index];
+
+      // Keep what UPDATE/DELETE statements are about to change (real runs only)
+      if (
+        options.resultSink &&
+        !dryRun &&
+        !batch &&
+        !readOnly &&
+        driver.features.beforeImages &&
+        config.execution.beforeImageMaxRows > 0
+      ) {
+        entry.beforeImage = await captureBeforeImage(
+          connection,
+          statement,
+          options.resultSink,
+          inTransaction,
+          bind
+        );
+        if (control?.cancelledBy) {
+          throw new ExecutionCancelledError(control.cancelledBy);
+        }
+      }
+      const statementStart = Date.now();
+      const query = bind(statement.text);
+
+      try {
+        const { returnsRows } = classifyStatement(statement.text, dialect);
+
+        if (batch) {
+          const batchSize = String(batch.size);
+          const batchQuery = bind(
+            replacePlaceholders(
+              statement.text,
+              (name) => (name === "batch_size" ? batchSize : undefined),
+              dialect
+            )
+          );
+          const maxBatches = config.execution.batchMaxBatches;
+          for (;;) {
+            if (control?.cancelledBy) {
+              throw new ExecutionCancelledError(control.cancelledBy);
+            }
+            // A WHERE clause that doesn't exclude processed rows would
+            // otherwise loop forever
+            if (maxBatches > 0 && batchCount >= maxBatches) {
+              throw new Error(
+                `Stopped after ${maxBatches} batches (BATCH_MAX_BATCHES) with rows still affected; check that the WHERE clause excludes rows already processed`
+              );
+            }
+            const result = await connection.query(
+              batchQuery.text,
+              batchQuery.values
+            );
+            entry.command = result.command || null;
+            if (!result.rowCount) break;
+
+            batchCount++;
+            batchRows += result.rowCount;
+            if (control?.onProgress) {
+              await control.onProgress({
+                batches: batchCount,
+                rows: batchRows,
+              });
+            }
+            if (dryRun) break;
+            if (batch.sleepMs > 0) {
+              const sleepMs = batch.sleepMs;
+              await new Promise((resolve) => setTimeout(resolve, sleepMs));
+            }
+          }
+          entry.status = "success";
+          entry.executionTime = Date.now() - statementStart;
+          entry.rowCount = batchRows;
+          continue;
+        }
+
+        if (returnsRows && options.resultSink) {
+          const streamed = await streamStatement(
+            connection,
+            statement,
+            query,
+            options.resultSink
+          );
+          entry.status = "success";
+          entry.command = streamed.command;
+          entry.executionTime = Date.now() - statementStart;
+          entry.rowCount = streamed.rowCount;
+          entry.artifactId = streamed.artifactId;
+          if (streamed.preview.length > 0) {
+            entry.rows = streamed.preview;
+          }
+          continue;
+        }
 
-    // Check if this is a SELECT query (has result rows)
-    // Remove comments and whitespace to detect SELECT queries properly
-    const sqlClean = sql
-      .replace(/--.*$/gm, "") // Remove single-line comments
-      .replace(/\/\*[\s\S]*?\*\//g, "") // Remove multi-line comments
-      .trim()
-      .toUpperCase();
-    const isSelectQuery = sqlClean.startsWith("SELECT");
-    const resultRows =
-      isSelectQuery && result.rows && result.rows.length > 0
-        ? result.rows
-        : undefined;
-
-    // Limit result rows to prevent storing huge result sets (max 100 rows)
-    const limitedRows =
-      resultRows && resultRows.length > 100
-        ? resultRows.slice(0, 100)
-        : resultRows;
-
-    // For SELECT queries, use rows.length; for DML/DDL, use rowCount
-    const rowsAffected = isSelectQuery
-      ? result.rows
-        ? result.rows.length
-        : 0
-      : result.rowCount || 0;
+        const result = await connection.query(query.text, query.values);
+
+        entry.status = "success";
+        entry.command = result.command || null;
+        entry.executionTime = Date.now() - statementStart;
+        // Statements with a result set count the rows returned (for DML
+        // with RETURNING that's also the rows affected); others use rowCount
+        entry.rowCount = returnsRows
+          ? result.rows?.length || 0
+          : result.rowCount ?? null;
+        if (returnsRows && result.rows && result.rows.length > 0) {
+          entry.rows = result.rows.slice(0, MAX_RESULT_ROWS);
+        }
+      } catch (error: any) {
+        entry.status = "error";
+        entry.executionTime = Date.now() - statementStart;
+        entry.error = error.message || "Unknown error occurred";
+        if (batch) {
+          // Earlier batches stay committed
+          entry.rowCount = batchRows;
+        }
+        // Postgres reports a 1-based character position within the statement
+        // (rewritten statements - batches, bound parameters - don't map back)
+        if (error.position && !batch && query.text === statement.text) {
+          entry.errorPosition = positionAt(
+            sql,
+            statement.start + parseInt(error.position) - 1
+          );
+        }
+        throw error;
+      }
+    }
+    current = undefined;
+
+    // Rows affected is the total over DML statements; scripts without DML
+    // report the rows returned by their last query instead
+    const modifying = statementResults.filter((entry) => entry.kind === "dml");
+    const lastQuery = [...statementResults]
+      .reverse()
+      .find((entry) => classifyStatement(entry.sql).returnsRows);
+    const rowsAffected =
+      modifying.length > 0
+        ? modifying.reduce((sum, entry) => sum + (entry.rowCount || 0), 0)
+        : lastQuery?.rowCount || 0;
+
+    // result_data holds the rows of the last statement that returned any
+    const lastWithRows = [...statementResults]
+      .reverse()
+      .find((entry) => entry.rows && entry.rows.length > 0);
+
+    // Undo the whole script when it touched more or fewer rows than declared
+    if (
+      expectedRows &&
+      (rowsAffected < expectedRows.min || rowsAffected > expectedRows.max)
+    ) {
+      await connection.rollback();
+      inTransaction = false;
+      const expected =
+        expectedRows.min === expectedRows.max
+          ? `${expectedRows.min}`
+          : `${expectedRows.min}-${expectedRows.max}`;
+      return {
+        success: false,
+        status: dryRun ? "dry_run_error" : "rows_mismatch",
+        dryRun,
+        error: `Expected ${expected} rows affected but the script affected ${rowsAffected}; all changes were rolled back`,
+        rowsAffected,
+        executionTime: Date.now() - start,
+        resultRows: lastWithRows?.rows,
+        statements: statementResults,
+        transactional,
+        timeouts,
+        expectedRows,
+        readOnly,
+        runAs,
+        notices,
+        context,
+        assertions,
+        schemaSnapshot,
+      };
+    }
+
+    const failedAfter = await checkAssertions(
+      connection,
+      assertions,
+      "after",
+      bind
+    );
+    if (failedAfter) throw new AssertionFailedError(failedAfter);
+
+    if (inTransaction) {
+      // A dry run discards everything the script did
+      await (dryRun ? connection.rollback() : connection.commit());
+      inTransaction = false;
+    }
+    const executionTime = Date.now() - start;
 
     return {
       success: true,
+      status: dryRun ? "dry_run" : "success",
+      dryRun,
       rowsAffected,
       executionTime,
-      resultRows: limitedRows,
+      resultRows: lastWithRows?.rows,
+      statements: statementResults,
+      transactional,
+      timeouts,
+      expectedRows,
+      batch: batch ? { ...batch, count: batchCount } : undefined,
+      readOnly,
+      runAs,
+      notices,
+      context,
+      assertions,
+      schemaSnapshot,
     };
   } catch (error: any) {
     const executionTime = Date.now() - start;
@@ -84,19 +1060,226 @@ export async function executeSQL(
       error.message
     );
 
+    if (inTransaction && connection) {
+      try {
+        await connection.rollback();
+      } catch (rollbackError) {
+        // Connection may already be broken - nothing left to roll back
+      }
+    }
+
+    if (control?.refresh && !control.cancelledBy) {
+      try {
+        await control.refresh();
+      } catch (refreshError) {
+        // Fall back to what we already know
+      }
+    }
+    const cancelled = control?.cancelledBy !== undefined;
+    const timeoutKind = cancelled ? null : driver?.timeoutKind(error) ?? null;
+    const timedOut = timeoutKind !== null;
+    const assertionFailed = error instanceof AssertionFailedError;
+    let message = error.message || "Unknown error occurred";
+    if (timedOut && timeouts) {
+      const limit = timeoutKind === "lock" ? timeouts.lock : timeouts.statement;
+      message = `${message} (limit ${limit}ms)`;
+    }
+    // The script tried to write
+    if (readOnly && driver?.isReadOnlyViolation(error)) {
+      message = `Write blocked: the script runs read-only (-- ReadOnly${
+        readOnly.replica ? ", on the read-only replica" : ""
+      }): ${message}`;
+    }
+    if (cancelled && !(error instanceof ExecutionCancelledError)) {
+      message = `Cancelled by ${control?.cancelledBy}: ${message}`;
+    }
+    if (batch && !dryRun && batchCount > 0) {
+      message = `${message} (${batchCount} batch${
+        batchCount !== 1 ? "es" : ""
+      } with ${batchRows} rows already committed)`;
+    }
+
     return {
       success: false,
-      error: error.message || "Unknown error occurred",
+      status: cancelled
+        ? "cancelled"
+        : dryRun
+        ? "dry_run_error"
+        : timedOut
+        ? "timeout"
+        : assertionFailed
+        ? "assertion_failed"
+        : "error",
+      cancelledBy: control?.cancelledBy,
+      cancelledAt: control?.cancelledAt,
+      dryRun,
+      // Point at the failing statement rather than the whole script
+      error: current
+        ? `Statement ${current.index + 1} (line ${current.line}): ${message}`
+        : message,
       executionTime,
+      statements: statementResults,
+      transactional,
+      timeouts,
+      expectedRows,
+      // Rows of batches committed before the failure
+      rowsAffected: batch && !dryRun ? batchRows : undefined,
+      batch: batch ? { ...batch, count: batchCount } : undefined,
+      readOnly,
+      runAs,
+      notices,
+      context,
+      assertions,
+      schemaSnapshot,
     };
+  } finally {
+    if (connection) {
+      stopNotices?.();
+      await connection.release(sessionConfigured);
+    }
+  }
+}
+
+// Tables as a script running on the target would find them (target groups:
+// the canary, or the first member)
+export async function describeTargetTables(
+  target: string,
+  tables: string[]
+): Promise<TableSchema[]> {
+  const [member] = await resolveMembers(target);
+  const driver = targetDriver(target, member);
+  if (!driver) {
+    throw new Error(`No connection pool available for ${target} database`);
+  }
+  const connection = await driver.connect();
+  try {
+    return await connection.describeTables(tables);
+  } finally {
+    await connection.release(false);
   }
 }
 
+// EXPLAIN each statement of a script against the target database. Everything
+// runs in one transaction that is always rolled back; with analyze the
+// statements really execute (EXPLAIN ANALYZE), so later plans see the effects
+// of earlier statements. Target groups are explained on their canary (or
+// first member).
+export async function explainSQL(
+  target: string,
+  sql: string,
+  options: { analyze?: boolean; params?: ParamValues } = {}
+): Promise<StatementPlan[]> {
+  const [member] = await resolveMembers(target);
+  const driver = targetDriver(target, member);
+  const analyze = options.analyze === true;
+  const statements = splitStatements(sql);
+  const params = resolveParams(sql);
+  const paramValues = resolveParamValues(params, options.params);
+
+  if (!driver) {
+    throw new Error(`No connection pool available for ${target} database`);
+  }
+  if (!driver.features.plans) {
+    throw new Error(
+      `Query plans are only available for Postgres targets (${target} runs on ${driver.name})`
+    );
+  }
+  if (statements.length === 0) {
+    throw new Error("Script does not contain any SQL statements");
+  }
+
+  const timeouts = resolveTimeouts(target, sql);
+  const runAs = resolveRunAs(target, sql);
+  const connection = await driver.connect();
+
+  try {
+    // Plan as the role the script would run as
+    await connection.configure({
+      statementTimeoutMs: timeouts.statement,
+      lockTimeoutMs: timeouts.lock,
+      readOnly: false,
+      role: runAs,
+    });
+    await connection.begin(false);
+
+    const plans: StatementPlan[] = [];
+    for (const statement of statements) {
+      const entry: StatementPlan = {
+        index: statement.index,
+        sql: statement.text,
+        line: statement.line,
+        status: "skipped",
+      };
+      plans.push(entry);
+
+      if (isTransactionControl(statement.text)) {
+        entry.note = "Transaction control - not planned";
+        continue;
+      }
+      if (requiresAutocommit(statement.text)) {
+        entry.note = "Cannot run inside a transaction - not planned";
+        continue;
+      }
+      const explainable = isExplainable(statement.text);
+      if (!explainable && !analyze) {
+        entry.note = "No plan for this statement type";
+        continue;
+      }
+
+      // A savepoint per statement keeps one failure from aborting the rest
+      await connection.query("SAVEPOINT explain_statement");
+      const query = bindParams(statement.text, params, paramValues);
+      try {
+        if (explainable) {
+          const result = await connection.query(
+            `EXPLAIN (FORMAT JSON${analyze ? ", ANALYZE, BUFFERS" : ""}) ${
+              query.text
+            }`,
+            query.values
+          );
+          const [output] = result.rows[0]["QUERY PLAN"];
+          entry.status = "planned";
+          entry.plan = output.Plan;
+          entry.planningTime = output["Planning Time"];
+          entry.executionTime = output["Execution Time"];
+        } else {
+          // DDL has no plan, but later statements may depend on it
+          await connection.query(query.text, query.values);
+          entry.status = "executed";
+          entry.note = "Executed without a plan (rolled back)";
+        }
+        await connection.query("RELEASE SAVEPOINT explain_statement");
+      } catch (error: any) {
+        entry.status = "error";
+        entry.error = error.message || "Unknown error occurred";
+        await connection.query("ROLLBACK TO SAVEPOINT explain_statement");
+      }
+    }
+
+    await connection.rollback();
+    return plans;
+  } catch (error) {
+    await connection.rollback().catch(() => {
+      // Connection may already be broken - nothing left to roll back
+    });
+    throw error;
+  } finally {
+    await connection.release(true);
+  }
+}
+
+// Per-environment execution state of a script, as { environment: executed_at }
+const EXECUTED_IN = `COALESCE(
+  (SELECT jsonb_object_agg(s.environment, s.executed_at)
+   FROM script_environment_status s WHERE s.script_id = a.id),
+  '{}'::jsonb) AS executed_in`;
+
 // Get all approved scripts
 export async function getApprovedScripts(): Promise<ApprovedScript[]> {
   try {
     const result = await pools.audit.query(
-      `SELECT * FROM approved_scripts ORDER BY approved_at DESC`
+      `SELECT a.*, ${EXECUTED_IN}
+       FROM approved_scripts a ORDER BY a.approved_at DESC`
     );
     return result.rows;
   } catch (error) {
@@ -124,7 +1307,7 @@ export async function getScriptById(
 ): Promise<ApprovedScript | null> {
   try {
     const result = await pools.audit.query(
-      `SELECT * FROM approved_scripts WHERE id = $1`,
+      `SELECT a.*, ${EXECUTED_IN} FROM approved_scripts a WHERE a.id = $1`,
       [id]
     );
     return result.rows[0] || null;
@@ -134,53 +1317,231 @@ export async function getScriptById(
   }
 }
 
-// Update script execution status (staging or production)
+// Record a successful run of the script in an environment
 export async function updateScriptExecutionStatus(
   scriptId: number,
-  targetDatabase: "staging" | "production"
+  targetDatabase: string
 ): Promise<void> {
   try {
-    if (targetDatabase === "staging") {
-      await pools.audit.query(
-        `UPDATE approved_scripts 
-         SET staging_executed = true, staging_executed_at = NOW() 
-         WHERE id = $1`,
-        [scriptId]
-      );
-    } else if (targetDatabase === "production") {
-      await pools.audit.query(
-        `UPDATE approved_scripts 
-         SET production_executed = true, production_executed_at = NOW() 
-         WHERE id = $1`,
-        [scriptId]
-      );
-    }
+    await pools.audit.query(
+      `INSERT INTO script_environment_status (script_id, environment, executed_at)
+       VALUES ($1, $2, NOW())
+       ON CONFLICT (script_id, environment) DO UPDATE SET executed_at = NOW()`,
+      [scriptId, targetDatabase]
+    );
   } catch (error) {
     console.error("Error updating script execution status:", error);
   }
 }
 
-// Check if script can be executed on production
-export async function canExecuteOnProduction(
-  scriptId: number
-): Promise<boolean> {
+// Clear an environment's executed state after the script was reverted there
+export async function clearScriptExecutionStatus(
+  scriptId: number,
+  targetDatabase: string
+): Promise<void> {
+  try {
+    await pools.audit.query(
+      `DELETE FROM script_environment_status
+       WHERE script_id = $1 AND environment = $2`,
+      [scriptId, targetDatabase]
+    );
+  } catch (error) {
+    console.error("Error clearing script execution status:", error);
+  }
+}
+
+// Latest successful execution of a script on a target that hasn't been
+// reverted yet (what a Revert would undo). Target groups have one execution
+// per member, so they can't be reverted as a whole.
+export async function getRevertableExecution(
+  scriptName: string,
+  targetDatabase: string
+): Promise<ExecutionLog | null> {
+  if (getEnvironment(targetDatabase)?.group) return null;
   try {
     const result = await pools.audit.query(
-      `SELECT staging_executed, direct_prod 
-       FROM approved_scripts 
-       WHERE id = $1`,
-      [scriptId]
+      `SELECT * FROM sql_execution_log l
+       WHERE l.script_name = $1 AND l.target_database = $2
+         AND l.status = 'success' AND l.reverts_execution_id IS NULL
+       ORDER BY l.executed_at DESC
+       LIMIT 1`,
+      [scriptName, targetDatabase]
     );
+    const execution: ExecutionLog | undefined = result.rows[0];
+    if (!execution) return null;
+
+    const reverted = await pools.audit.query(
+      `SELECT 1 FROM sql_execution_log
+       WHERE reverts_execution_id = $1 AND status = 'success'`,
+      [execution.id]
+    );
+    return reverted.rows.length > 0 ? null : execution;
+  } catch (error) {
+    console.error("Error fetching revertable execution:", error);
+    return null;
+  }
+}
+
+// Whether a script may run in an environment: every environment it
+// requires has a successful run, or the script has the -- DirectProd flag
+export function meetsPromotionRules(
+  script: Pick<ApprovedScript, "executed_in" | "direct_prod">,
+  environment: string
+): boolean {
+  const env = getEnvironment(environment);
+  if (!env) return false;
+  return (
+    script.direct_prod === true ||
+    env.requires.every((required) => script.executed_in?.[required])
+  );
+}
+
+// Check if script can be executed in an environment
+export async function canExecuteOn(
+  scriptId: number,
+  environment: string
+): Promise<boolean> {
+  const script = await getScriptById(scriptId);
+  return script ? meetsPromotionRules(script, environment) : false;
+}
+
+// Explains why the promotion rules block an environment
+export function promotionError(environment: string): string {
+  const env = getEnvironment(environment);
+  if (!env) return `Unknown environment "${environment}"`;
+  return `Script must be executed successfully in ${env.requires.join(
+    " and "
+  )} first, or have -- DirectProd flag set`;
+}
+
+// Whether running a script again is blocked: it already succeeded in a
+// protected environment and isn't marked -- Repeatable (dry runs are fine)
+export function blocksRerun(
+  script: Pick<ApprovedScript, "executed_in" | "repeatable">,
+  environment: string
+): boolean {
+  return (
+    getEnvironment(environment)?.protected === true &&
+    Boolean(script.executed_in?.[environment]) &&
+    script.repeatable !== true
+  );
+}
+
+// Explains why a re-run is blocked
+export function rerunError(
+  script: Pick<ApprovedScript, "executed_in">,
+  environment: string
+): string {
+  const executedAt = script.executed_in?.[environment];
+  return `Script already ran successfully on ${environment}${
+    executedAt ? ` (${new Date(executedAt).toLocaleString()})` : ""
+  }; add -- Repeatable to allow running it again`;
+}
+
+// Risk findings of a script, or of its rollback script for a revert: stored
+// when it was approved, or analyzed now for scripts approved before the
+// analyzer existed
+export function scriptRisk(
+  script: Pick<
+    ApprovedScript,
+    | "script_content"
+    | "target_database"
+    | "risk_findings"
+    | "rollback_content"
+    | "rollback_risk_findings"
+  >,
+  options: { revert?: boolean } = {}
+): RiskFinding[] {
+  const dialect = getEnvironment(script.target_database)?.driver;
+  if (options.revert) {
+    return (
+      script.rollback_risk_findings ??
+      analyzeRisk(script.rollback_content || "", dialect)
+    );
+  }
+  return script.risk_findings ?? analyzeRisk(script.script_content, dialect);
+}
 
-    if (result.rows.length === 0) return false;
-    const script = result.rows[0];
+// What RISK_POLICY asks of a script before it runs on an environment: the
+// most approvals any of its findings requires, and whether the script name
+// must be typed to confirm. Policies apply to protected environments only.
+export function riskRequirements(
+  findings: RiskFinding[],
+  environment: string
+): { approvals: number; confirm: boolean } {
+  const required = { approvals: 0, confirm: false };
+  if (!getEnvironment(environment)?.protected) return required;
 
-    // Can execute if: staging was executed successfully OR direct_prod flag is set
-    return script.staging_executed === true || script.direct_prod === true;
+  for (const finding of findings) {
+    const policy = config.riskPolicy[finding.rule];
+    if (!policy) continue;
+    required.approvals = Math.max(required.approvals, policy.approvals);
+    required.confirm = required.confirm || policy.confirm;
+  }
+  return required;
+}
+
+// Why RISK_POLICY blocks running the script (or, for a revert, its rollback
+// script) on an environment, or null
+export function riskPolicyError(
+  script: ApprovedScript,
+  environment: string,
+  confirmation: string | null,
+  options: { revert?: boolean } = {}
+): string | null {
+  const required = riskRequirements(scriptRisk(script, options), environment);
+  const approvals = Array.isArray(script.approvers)
+    ? script.approvers.length
+    : 0;
+  const subject = options.revert ? "rollback script's" : "script's";
+  if (approvals < required.approvals) {
+    return `This ${subject} risk findings need ${required.approvals} approvals to run on ${environment} (it has ${approvals})`;
+  }
+  if (required.confirm && confirmation?.trim() !== script.script_name) {
+    return `Type the script name (${script.script_name}) to confirm ${
+      options.revert ? "reverting" : "running"
+    } it on ${environment}`;
+  }
+  return null;
+}
+
+// Take a session advisory lock on the audit database, keyed on script and
+// target, so the same script can't run twice on a target at once - even from
+// different app instances. Returns the release function, or null when the
+// lock is already held.
+export async function lockExecution(
+  scriptName: string,
+  target: string
+): Promise<(() => Promise<void>) | null> {
+  const client = await pools.audit.connect();
+  const key = [`sql-runner:${scriptName}`, target];
+  try {
+    const result = await client.query(
+      `SELECT pg_try_advisory_lock(hashtext($1), hashtext($2)) AS locked`,
+      key
+    );
+    if (!result.rows[0]?.locked) {
+      client.release();
+      return null;
+    }
   } catch (error) {
-    console.error("Error checking production execution eligibility:", error);
-    return false;
+    client.release(true);
+    throw error;
   }
+
+  return async () => {
+    try {
+      await client.query(
+        `SELECT pg_advisory_unlock(hashtext($1), hashtext($2))`,
+        key
+      );
+      client.release();
+    } catch (error) {
+      // Closing the connection releases the lock as well
+      console.error("Error releasing execution lock:", error);
+      client.release(true);
+    }
+  };
 }
 
 // Get execution history
@@ -215,6 +1576,13 @@ export async function getScriptExecutionHistory(
           // If parsing fails, keep as is
         }
       }
+      if (row.statement_results && typeof row.statement_results === "string") {
+        try {
+          row.statement_results = JSON.parse(row.statement_results);
+        } catch (e) {
+          // If parsing fails, keep as is
+        }
+      }
       if (row.approvers && typeof row.approvers === "string") {
         try {
           row.approvers = JSON.parse(row.approvers);
@@ -246,7 +1614,29 @@ export async function initializeSchema(): Promise<void> {
       execution_time_ms INTEGER,
       github_pr_url VARCHAR(500),
       approvers JSONB,
-      result_data JSONB
+      result_data JSONB,
+      statement_results JSONB,
+      statement_timeout_ms INTEGER,
+      lock_timeout_ms INTEGER,
+      cancelled_by VARCHAR(255),
+      cancelled_at TIMESTAMP,
+      query_plan JSONB,
+      expected_rows_min INTEGER,
+      expected_rows_max INTEGER,
+      batch_size INTEGER,
+      batch_count INTEGER,
+      reverts_execution_id INTEGER,
+      parameters JSONB,
+      target_member VARCHAR(255),
+      scheduled_for TIMESTAMP,
+      read_only BOOLEAN,
+      read_replica BOOLEAN,
+      run_as VARCHAR(255),
+      notices JSONB,
+      execution_context JSONB,
+      assertions JSONB,
+      schema_snapshot JSONB,
+      schema_drift JSONB
     );
     
     -- Add result_data column if it doesn't exist (for existing databases)
@@ -255,8 +1645,205 @@ export async function initializeSchema(): Promise<void> {
       IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'result_data') THEN
         ALTER TABLE sql_execution_log ADD COLUMN result_data JSONB;
       END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'statement_results') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN statement_results JSONB;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'statement_timeout_ms') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN statement_timeout_ms INTEGER;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'lock_timeout_ms') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN lock_timeout_ms INTEGER;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'cancelled_by') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN cancelled_by VARCHAR(255);
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'cancelled_at') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN cancelled_at TIMESTAMP;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'query_plan') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN query_plan JSONB;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'expected_rows_min') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN expected_rows_min INTEGER;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'expected_rows_max') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN expected_rows_max INTEGER;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'batch_size') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN batch_size INTEGER;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'batch_count') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN batch_count INTEGER;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'reverts_execution_id') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN reverts_execution_id INTEGER;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'parameters') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN parameters JSONB;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'target_member') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN target_member VARCHAR(255);
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'scheduled_for') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN scheduled_for TIMESTAMP;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'read_only') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN read_only BOOLEAN;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'read_replica') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN read_replica BOOLEAN;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'run_as') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN run_as VARCHAR(255);
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'notices') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN notices JSONB;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'execution_context') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN execution_context JSONB;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'assertions') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN assertions JSONB;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'schema_snapshot') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN schema_snapshot JSONB;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sql_execution_log' AND column_name = 'schema_drift') THEN
+        ALTER TABLE sql_execution_log ADD COLUMN schema_drift JSONB;
+      END IF;
     END $$;
 
+    CREATE TABLE IF NOT EXISTS execution_jobs (
+      id SERIAL PRIMARY KEY,
+      script_id INTEGER NOT NULL,
+      script_name VARCHAR(255) NOT NULL,
+      target_database VARCHAR(50) NOT NULL,
+      mode VARCHAR(20) NOT NULL DEFAULT 'execute',
+      status VARCHAR(20) NOT NULL DEFAULT 'queued',
+      requested_by VARCHAR(255) NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      started_at TIMESTAMP,
+      finished_at TIMESTAMP,
+      heartbeat_at TIMESTAMP,
+      worker_id VARCHAR(255),
+      backend_pid INTEGER,
+      backend_replica BOOLEAN,
+      cancel_requested_by VARCHAR(255),
+      cancel_requested_at TIMESTAMP,
+      terminate_requested BOOLEAN,
+      execution_log_id INTEGER,
+      query_plan_id INTEGER,
+      reverts_execution_id INTEGER,
+      parameters JSONB,
+      schema_drift JSONB,
+      progress JSONB,
+      members JSONB,
+      scheduled_for TIMESTAMP,
+      run_before TIMESTAMP,
+      message TEXT,
+      error_message TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_execution_jobs_status ON execution_jobs(status);
+    CREATE INDEX IF NOT EXISTS idx_execution_jobs_script ON execution_jobs(script_id);
+
+    DO $$ 
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_jobs' AND column_name = 'query_plan_id') THEN
+        ALTER TABLE execution_jobs ADD COLUMN query_plan_id INTEGER;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_jobs' AND column_name = 'progress') THEN
+        ALTER TABLE execution_jobs ADD COLUMN progress JSONB;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_jobs' AND column_name = 'reverts_execution_id') THEN
+        ALTER TABLE execution_jobs ADD COLUMN reverts_execution_id INTEGER;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_jobs' AND column_name = 'parameters') THEN
+        ALTER TABLE execution_jobs ADD COLUMN parameters JSONB;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_jobs' AND column_name = 'members') THEN
+        ALTER TABLE execution_jobs ADD COLUMN members JSONB;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_jobs' AND column_name = 'scheduled_for') THEN
+        ALTER TABLE execution_jobs ADD COLUMN scheduled_for TIMESTAMP;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_jobs' AND column_name = 'backend_replica') THEN
+        ALTER TABLE execution_jobs ADD COLUMN backend_replica BOOLEAN;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_jobs' AND column_name = 'run_before') THEN
+        ALTER TABLE execution_jobs ADD COLUMN run_before TIMESTAMP;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_jobs' AND column_name = 'schema_drift') THEN
+        ALTER TABLE execution_jobs ADD COLUMN schema_drift JSONB;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_jobs' AND column_name = 'terminate_requested') THEN
+        ALTER TABLE execution_jobs ADD COLUMN terminate_requested BOOLEAN;
+      END IF;
+    END $$;
+
+    -- One queued or running execution of a script per target (dry runs
+    -- don't count); not created while older duplicates are still active
+    DO $$
+    BEGIN
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_execution_jobs_active
+        ON execution_jobs(script_id, target_database)
+        WHERE status IN ('queued', 'running') AND mode <> 'dry_run';
+    EXCEPTION WHEN unique_violation THEN
+      RAISE NOTICE 'idx_execution_jobs_active not created: duplicate active jobs';
+    END $$;
+
+    CREATE TABLE IF NOT EXISTS query_plans (
+      id SERIAL PRIMARY KEY,
+      script_id INTEGER NOT NULL,
+      script_name VARCHAR(255) NOT NULL,
+      target_database VARCHAR(50) NOT NULL,
+      analyzed BOOLEAN DEFAULT false,
+      statements JSONB NOT NULL,
+      created_by VARCHAR(255) NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS execution_artifacts (
+      id SERIAL PRIMARY KEY,
+      execution_log_id INTEGER,
+      statement_index INTEGER NOT NULL,
+      kind VARCHAR(20) NOT NULL DEFAULT 'result',
+      table_name TEXT,
+      primary_key JSONB,
+      command VARCHAR(20),
+      columns JSONB NOT NULL,
+      row_count INTEGER DEFAULT 0,
+      complete BOOLEAN DEFAULT false,
+      truncated BOOLEAN NOT NULL DEFAULT false,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_execution_artifacts_log ON execution_artifacts(execution_log_id);
+
+    DO $$ 
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_artifacts' AND column_name = 'kind') THEN
+        ALTER TABLE execution_artifacts ADD COLUMN kind VARCHAR(20) NOT NULL DEFAULT 'result';
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_artifacts' AND column_name = 'table_name') THEN
+        ALTER TABLE execution_artifacts ADD COLUMN table_name TEXT;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_artifacts' AND column_name = 'primary_key') THEN
+        ALTER TABLE execution_artifacts ADD COLUMN primary_key JSONB;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_artifacts' AND column_name = 'command') THEN
+        ALTER TABLE execution_artifacts ADD COLUMN command VARCHAR(20);
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'execution_artifacts' AND column_name = 'truncated') THEN
+        ALTER TABLE execution_artifacts ADD COLUMN truncated BOOLEAN NOT NULL DEFAULT false;
+      END IF;
+    END $$;
+
+    CREATE TABLE IF NOT EXISTS execution_artifact_chunks (
+      artifact_id INTEGER NOT NULL REFERENCES execution_artifacts(id) ON DELETE CASCADE,
+      seq INTEGER NOT NULL,
+      rows JSONB NOT NULL,
+      PRIMARY KEY (artifact_id, seq)
+    );
+
     CREATE TABLE IF NOT EXISTS approved_scripts (
       id SERIAL PRIMARY KEY,
       script_name VARCHAR(255) UNIQUE NOT NULL,
@@ -265,30 +1852,58 @@ export async function initializeSchema(): Promise<void> {
       github_pr_url VARCHAR(500),
       approvers JSONB,
       approved_at TIMESTAMP DEFAULT NOW(),
-      staging_executed BOOLEAN DEFAULT false,
-      staging_executed_at TIMESTAMP,
-      production_executed BOOLEAN DEFAULT false,
-      production_executed_at TIMESTAMP,
-      direct_prod BOOLEAN DEFAULT false
+      direct_prod BOOLEAN DEFAULT false,
+      rollback_content TEXT,
+      repeatable BOOLEAN DEFAULT false,
+      risk_findings JSONB,
+      rollback_risk_findings JSONB
     );
     
     -- Add new columns if they don't exist (for existing databases)
     DO $$ 
     BEGIN
-      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'approved_scripts' AND column_name = 'staging_executed') THEN
-        ALTER TABLE approved_scripts ADD COLUMN staging_executed BOOLEAN DEFAULT false;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'approved_scripts' AND column_name = 'direct_prod') THEN
+        ALTER TABLE approved_scripts ADD COLUMN direct_prod BOOLEAN DEFAULT false;
       END IF;
-      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'approved_scripts' AND column_name = 'staging_executed_at') THEN
-        ALTER TABLE approved_scripts ADD COLUMN staging_executed_at TIMESTAMP;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'approved_scripts' AND column_name = 'rollback_content') THEN
+        ALTER TABLE approved_scripts ADD COLUMN rollback_content TEXT;
       END IF;
-      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'approved_scripts' AND column_name = 'production_executed') THEN
-        ALTER TABLE approved_scripts ADD COLUMN production_executed BOOLEAN DEFAULT false;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'approved_scripts' AND column_name = 'repeatable') THEN
+        ALTER TABLE approved_scripts ADD COLUMN repeatable BOOLEAN DEFAULT false;
       END IF;
-      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'approved_scripts' AND column_name = 'production_executed_at') THEN
-        ALTER TABLE approved_scripts ADD COLUMN production_executed_at TIMESTAMP;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'approved_scripts' AND column_name = 'risk_findings') THEN
+        ALTER TABLE approved_scripts ADD COLUMN risk_findings JSONB;
       END IF;
-      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'approved_scripts' AND column_name = 'direct_prod') THEN
-        ALTER TABLE approved_scripts ADD COLUMN direct_prod BOOLEAN DEFAULT false;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'approved_scripts' AND column_name = 'rollback_risk_findings') THEN
+        ALTER TABLE approved_scripts ADD COLUMN rollback_risk_findings JSONB;
+      END IF;
+    END $$;
+
+    -- Successful runs per environment (one row per script and environment)
+    DO $$ 
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'script_environment_status') THEN
+        CREATE TABLE script_environment_status (
+          script_id INTEGER NOT NULL REFERENCES approved_scripts(id) ON DELETE CASCADE,
+          environment VARCHAR(50) NOT NULL,
+          executed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (script_id, environment)
+        );
+
+        -- Move the state of the old staging/production columns over (once)
+        IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'approved_scripts' AND column_name = 'staging_executed') THEN
+          INSERT INTO script_environment_status (script_id, environment, executed_at)
+          SELECT id, 'staging', COALESCE(staging_executed_at, approved_at)
+          FROM approved_scripts WHERE staging_executed;
+          INSERT INTO script_environment_status (script_id, environment, executed_at)
+          SELECT id, 'production', COALESCE(production_executed_at, approved_at)
+          FROM approved_scripts WHERE production_executed;
+          ALTER TABLE approved_scripts
+            DROP COLUMN staging_executed,
+            DROP COLUMN staging_executed_at,
+            DROP COLUMN production_executed,
+            DROP COLUMN production_executed_at;
+        END IF;
       END IF;
     END $$;
   `;
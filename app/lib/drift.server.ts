@@ -0,0 +1,232 @@
+import { getEnvironment } from "~/config.server";
+import { describeTargetTables, pools } from "./db.server";
+import { referencedTables } from "./sql";
+import type { TableReference } from "./sql";
+import type {
+  ApprovedScript,
+  SchemaDifference,
+  SchemaDrift,
+  TableSchema,
+} from "./types";
+
+// Snapshot taken before the latest successful run of a script on an
+// environment (any member of a target group); null when that run predates
+// snapshots
+async function latestSnapshot(
+  scriptName: string,
+  environment: string
+): Promise<{ schema: TableSchema[]; executedAt: Date } | null> {
+  try {
+    const result = await pools.audit.query(
+      `SELECT schema_snapshot, executed_at FROM sql_execution_log
+       WHERE script_name = $1 AND target_database = $2
+         AND status = 'success' AND reverts_execution_id IS NULL
+       ORDER BY executed_at DESC
+       LIMIT 1`,
+      [scriptName, environment]
+    );
+    const row = result.rows[0];
+    return row?.schema_snapshot
+      ? { schema: row.schema_snapshot, executedAt: row.executed_at }
+      : null;
+  } catch (error) {
+    console.error("Error fetching schema snapshot:", error);
+    return null;
+  }
+}
+
+// Column definition as compared (and shown) by the drift check
+function describeColumn(column: TableSchema["columns"][number]): string {
+  return `${column.type}${column.nullable ? "" : " NOT NULL"}${
+    column.default !== null ? ` DEFAULT ${column.default}` : ""
+  }`;
+}
+
+// Named items present on one side only, or defined differently
+function compareItems(
+  table: string,
+  kind: SchemaDifference["kind"],
+  reference: [string, string][],
+  target: [string, string][]
+): SchemaDifference[] {
+  const left = new Map(reference);
+  const right = new Map(target);
+  const names = [...new Set([...left.keys(), ...right.keys()])];
+  return names
+    .filter((name) => left.get(name) !== right.get(name))
+    .map((name) => ({
+      table,
+      kind,
+      name,
+      reference: left.get(name) ?? null,
+      target: right.get(name) ?? null,
+    }));
+}
+
+// Differences of one table. Definitions from different engines never
+// match, so across engines only names are compared.
+function compareTables(
+  reference: TableSchema,
+  target: TableSchema,
+  namesOnly: boolean
+): SchemaDifference[] {
+  const table = reference.table;
+  if (!reference.exists || !target.exists) {
+    if (reference.exists === target.exists) return [];
+    return [
+      {
+        table,
+        kind: "table",
+        name: table,
+        reference: reference.exists ? "exists" : null,
+        target: target.exists ? "exists" : null,
+      },
+    ];
+  }
+
+  const items = <T extends { name: string }>(
+    list: T[],
+    describe: (item: T) => string
+  ): [string, string][] =>
+    list.map((item) => [item.name, namesOnly ? "exists" : describe(item)]);
+  return [
+    ...compareItems(
+      table,
+      "column",
+      items(reference.columns, describeColumn),
+      items(target.columns, describeColumn)
+    ),
+    ...compareItems(
+      table,
+      "index",
+      items(reference.indexes, (index) => index.definition),
+      items(target.indexes, (index) => index.definition)
+    ),
+    ...compareItems(
+      table,
+      "constraint",
+      items(reference.constraints, (constraint) => constraint.definition),
+      items(target.constraints, (constraint) => constraint.definition)
+    ),
+  ];
+}
+
+// Compare what the script found on the reference environment with the
+// target as it is now. Reverts compare both as they are now: the forward
+// script ran on both, the rollback script on neither.
+async function compareEnvironments(
+  scriptName: string,
+  references: TableReference[],
+  reference: string,
+  target: string,
+  revert: boolean
+): Promise<SchemaDrift> {
+  const drift: SchemaDrift = {
+    reference,
+    target,
+    snapshotAt: null,
+    tables: [],
+    skipped: [],
+    differences: [],
+  };
+  try {
+    const snapshot = revert
+      ? null
+      : await latestSnapshot(scriptName, reference);
+    let referenceSchema: TableSchema[];
+    if (snapshot) {
+      referenceSchema = snapshot.schema;
+      drift.snapshotAt = snapshot.executedAt;
+    } else if (revert) {
+      referenceSchema = await describeTargetTables(
+        reference,
+        references.map((table) => table.name)
+      );
+    } else {
+      // Without a snapshot the reference is compared as it is now, with the
+      // script's changes applied: tables its DDL changes would always differ
+      drift.skipped = references
+        .filter((table) => table.changed)
+        .map((table) => table.name);
+      const compared = references
+        .filter((table) => !table.changed)
+        .map((table) => table.name);
+      referenceSchema =
+        compared.length > 0
+          ? await describeTargetTables(reference, compared)
+          : [];
+    }
+    drift.tables = referenceSchema.map((table) => table.table);
+    if (drift.tables.length === 0) return drift;
+
+    const targetSchema = await describeTargetTables(target, drift.tables);
+    const namesOnly =
+      getEnvironment(reference)?.driver !== getEnvironment(target)?.driver;
+    drift.differences = referenceSchema.flatMap((table, i) =>
+      compareTables(table, targetSchema[i], namesOnly)
+    );
+  } catch (error: any) {
+    console.error(
+      `Error checking schema drift between ${reference} and ${target}:`,
+      error
+    );
+    drift.error = error.message || "Unknown error occurred";
+  }
+  return drift;
+}
+
+// Schema drift between the environments a script already ran on and a
+// protected target, for the tables the script (or, for a revert, its
+// rollback script) references. Empty when the target isn't protected or the
+// script hasn't run on any prerequisite (e.g. -- DirectProd).
+export async function checkSchemaDrift(
+  script: Pick<
+    ApprovedScript,
+    "script_name" | "script_content" | "rollback_content" | "executed_in"
+  >,
+  target: string,
+  options: { revert?: boolean } = {}
+): Promise<SchemaDrift[]> {
+  const env = getEnvironment(target);
+  if (!env?.protected) return [];
+  const references = referencedTables(
+    options.revert ? script.rollback_content || "" : script.script_content,
+    env.driver
+  );
+  if (references.length === 0) return [];
+
+  const drift: SchemaDrift[] = [];
+  for (const reference of env.requires) {
+    if (!script.executed_in?.[reference]) continue;
+    drift.push(
+      await compareEnvironments(
+        script.script_name,
+        references,
+        reference,
+        target,
+        options.revert === true
+      )
+    );
+  }
+  return drift;
+}
+
+// Whether a drift check found something to acknowledge (a check that
+// failed counts: the schemas couldn't be shown to match)
+export function hasSchemaDrift(drift: SchemaDrift[]): boolean {
+  return drift.some((entry) => entry.error || entry.differences.length > 0);
+}
+
+// Explains why drift blocks running the script on an environment
+export function driftError(drift: SchemaDrift[], target: string): string {
+  const differences = drift.reduce(
+    (sum, entry) => sum + entry.differences.length,
+    0
+  );
+  const references = drift.map((entry) => entry.reference).join(" and ");
+  return differences > 0
+    ? `The schema of ${target} differs from ${references} in ${differences} place${
+        differences === 1 ? "" : "s"
+      }; acknowledge the drift to run anyway`
+    : `The schema drift check against ${target} failed; acknowledge it to run anyway`;
+}
@@ -0,0 +1,102 @@
+import type {
+  DriverName,
+  ExecutionContext,
+  ServerNotice,
+  TableSchema,
+} from "./types";
+import { createPostgresDriver } from "./postgres.server";
+import { createMySQLDriver } from "./mysql.server";
+import { createSQLiteDriver } from "./sqlite.server";
+
+// What a statement returned, in the same shape from every driver
+export interface DriverResult {
+  command: string | null; // SELECT, INSERT, ... (the statement's verb)
+  rowCount: number | null; // Rows returned, or affected by DML
+  columns: string[];
+  rows: Record<string, any>[];
+}
+
+// Per-execution session settings, undone when the connection is released
+export interface SessionSettings {
+  statementTimeoutMs: number; // 0 disables the timeout
+  lockTimeoutMs: number;
+  readOnly: boolean; // Transactions default to read-only
+  role?: string; // From -- RunAs
+}
+
+// A server message that isn't an error (NOTICE, WARNING, MySQL notes)
+export type DriverNotice = Omit<ServerNotice, "statement">;
+
+// A connection checked out for one execution
+export interface DriverConnection {
+  // Server-side id of the connection, for cancel(); undefined when the
+  // driver can't interrupt a running statement
+  readonly backendId?: number;
+  configure(settings: SessionSettings): Promise<void>;
+  // Run one statement, with values bound to its placeholders
+  query(text: string, values?: (string | null)[]): Promise<DriverResult>;
+  // Run one statement and read what it returns in batches of rows (arrays
+  // in column order); onColumns describes the result set before the first
+  // batch. rowCount is the rows read, or the rows affected when the
+  // statement has no result set.
+  stream(
+    text: string,
+    values: (string | null)[],
+    onColumns: (columns: string[]) => Promise<void>,
+    onRows: (rows: any[][]) => Promise<void>
+  ): Promise<{ command: string | null; rowCount: number }>;
+  begin(readOnly: boolean): Promise<void>;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+  // Where and as whom the connection runs (appVersion is added by the caller)
+  context(): Promise<Omit<ExecutionContext, "appVersion">>;
+  // Columns, indexes and constraints of tables (names as a script writes
+  // them, resolved the way the session would); missing tables come back
+  // with exists: false
+  describeTables(tables: string[]): Promise<TableSchema[]>;
+  // Listen for server messages; returns the function that stops listening
+  onNotice(listener: (notice: DriverNotice) => void): () => void;
+  // Hand the connection back, undoing configure() first when reset is set;
+  // a connection that can't be reset is discarded
+  release(reset: boolean): Promise<void>;
+}
+
+// What a driver can do beyond running statements
+export interface DriverFeatures {
+  transactionalDDL: boolean; // DDL rolls back with the transaction
+  roles: boolean; // -- RunAs (SET ROLE)
+  plans: boolean; // EXPLAIN (FORMAT JSON) query plans
+  beforeImages: boolean; // Rows captured ahead of UPDATE/DELETE
+  placeholders: "numbered" | "anonymous"; // $1, $2 or ?
+}
+
+// A target database, whatever engine it runs on
+export interface DatabaseDriver {
+  readonly name: DriverName;
+  readonly features: DriverFeatures;
+  connect(): Promise<DriverConnection>;
+  // One-off statement on a pooled connection (connection tests, discovery)
+  query(text: string, values?: (string | null)[]): Promise<DriverResult>;
+  // Stop the statement running on a connection, or close the connection
+  cancel(backendId: number, terminate: boolean): Promise<boolean>;
+  // Which limit aborted a statement, if one did
+  timeoutKind(error: any): "statement" | "lock" | null;
+  // Whether a statement failed because the transaction is read-only
+  isReadOnlyViolation(error: any): boolean;
+}
+
+// Open a driver for a connection string. max caps its pool of connections.
+export function createDriver(
+  name: DriverName,
+  url: string,
+  options: { max?: number } = {}
+): DatabaseDriver {
+  switch (name) {
+    case "postgres":
+      return createPostgresDriver(url, options);
+    case "mysql":
+      return createMySQLDriver(url, options);
+    case "sqlite":
+      return createSQLiteDriver(url);
+  }
+}
@@ -45,6 +45,77 @@ export async function fetchScriptFromGitHub(
   }
 }
 
+// Forward script path for a file changed in a PR (foo.rollback.sql -> foo.sql)
+export function forwardScriptPath(path: string): string {
+  return path.replace(/\.rollback\.sql$/i, ".sql");
+}
+
+// Split a script at its "-- Rollback:" marker line; everything after the
+// marker is the rollback script. The marker must be written exactly, and a
+// script with several markers, or a line that only looks like one (e.g.
+// "-- rollback" or "--Rollback"), is rejected rather than guessed at.
+export function splitRollbackSection(content: string): {
+  forward: string;
+  rollback: string | null;
+} {
+  const lines = content.split("\n");
+  const markers: number[] = [];
+  lines.forEach((line, i) => {
+    const trimmed = line.trim();
+    if (trimmed === "-- Rollback:") {
+      markers.push(i);
+    } else if (/^--\s*rollback\s*:?\s*$/i.test(trimmed)) {
+      throw new Error(
+        `Line ${
+          i + 1
+        } looks like a rollback marker; write it exactly as "-- Rollback:"`
+      );
+    }
+  });
+  if (markers.length > 1) {
+    throw new Error(
+      `The script has ${markers.length} "-- Rollback:" markers (lines ${markers
+        .map((i) => i + 1)
+        .join(", ")}); use exactly one`
+    );
+  }
+  const marker = markers.length === 1 ? markers[0] : -1;
+  if (marker === -1) {
+    return { forward: content, rollback: null };
+  }
+
+  const rollback = lines
+    .slice(marker + 1)
+    .join("\n")
+    .trim();
+  return {
+    forward: lines.slice(0, marker).join("\n").trimEnd() + "\n",
+    rollback: rollback || null,
+  };
+}
+
+// Fetch a script and its rollback: a -- Rollback: section in the script wins,
+// otherwise a foo.rollback.sql companion file is used when it exists
+export async function fetchScriptWithRollback(
+  path: string
+): Promise<{ content: string; rollbackContent: string | null } | null> {
+  const content = await fetchScriptFromGitHub(path);
+  if (!content) return null;
+
+  const { forward, rollback } = splitRollbackSection(content);
+  validateHeaderPlacement(forward);
+  if (rollback) {
+    validateHeaderPlacement(rollback);
+    return { content: forward, rollbackContent: rollback };
+  }
+
+  const companion = await fetchScriptFromGitHub(
+    path.replace(/\.sql$/i, ".rollback.sql")
+  );
+  if (companion) validateHeaderPlacement(companion);
+  return { content, rollbackContent: companion?.trim() || null };
+}
+
 // Get PR approvers
 export async function getPRApprovers(prNumber: number): Promise<string[]> {
   try {
@@ -168,36 +239,78 @@ export function verifyWebhookSignature(
 }
 
 // Extract target database from SQL file metadata only
-// Looks for -- TargetDatabase: staging or -- TargetDatabase: production comment
+// Looks for a -- TargetDatabase: <environment> comment naming a configured environment
 export function extractTargetDatabase(
   filePath: string,
   content?: string
-): "staging" | "production" | null {
+): string | null {
   // Only check metadata - no path-based detection
   if (content) {
     const metadata = parseSQLMetadata(content);
     if (metadata.target) {
       const target = metadata.target.toLowerCase();
-      if (target === "staging" || target === "production") {
-        return target as "staging" | "production";
+      if (config.environments.some((env) => env.name === target)) {
+        return target;
       }
     }
   }
 
-  // Return null if no metadata found - caller will default to staging
+  // Return null if no metadata found - caller will default to the first environment
   return null;
 }
 
-// Parse SQL file metadata from comments
+// The comment block a script starts with (comment and blank lines up to the
+// first line of SQL), where its headers are read from
+function headerBlock(content: string): string[] {
+  const lines = content.split("\n");
+  const end = lines.findIndex((line) => {
+    const trimmed = line.trim();
+    return trimmed !== "" && !trimmed.startsWith("--");
+  });
+  return end === -1 ? lines : lines.slice(0, end);
+}
+
+// Headers that change how a script runs
+const DIRECTIVE_HEADER =
+  /^--\s*(Target|Timeout|LockTimeout|Batch|BatchSleep|Param|ExpectedRows|Assert\s+(before|after)|RunAs|ReadOnly|Repeatable|DirectProd)\s*(:|$)/i;
+
+// Headers are only read from the leading comment block, so one written
+// further down would be silently ignored; reject the script instead
+export function validateHeaderPlacement(content: string): void {
+  const lines = content.split("\n");
+  const start = headerBlock(content).length;
+  for (let i = start; i < lines.length; i++) {
+    const match = lines[i].trim().match(DIRECTIVE_HEADER);
+    if (match) {
+      throw new Error(
+        `-- ${match[1]} on line ${
+          i + 1
+        } comes after the first SQL statement; move it to the comment block at the top of the script`
+      );
+    }
+  }
+}
+
+// Parse SQL file metadata from the leading comment block
 export function parseSQLMetadata(content: string): {
   author?: string;
   purpose?: string;
   target?: string;
   date?: string;
   directProd?: boolean;
+  timeout?: string;
+  lockTimeout?: string;
+  expectedRows?: string;
+  batch?: string;
+  batchSleep?: string;
+  params?: string[];
+  repeatable?: boolean;
+  readOnly?: boolean;
+  runAs?: string;
+  assertions?: { phase: "before" | "after"; sql: string }[];
 } {
   const metadata: any = {};
-  const lines = content.split("\n").slice(0, 20); // Check first 20 lines for metadata
+  const lines = headerBlock(content);
 
   for (const line of lines) {
     const lowerLine = line.toLowerCase().trim();
@@ -209,6 +322,51 @@ export function parseSQLMetadata(content: string): {
       metadata.target = line.replace("-- Target:", "").trim();
     } else if (line.startsWith("-- Date:")) {
       metadata.date = line.replace("-- Date:", "").trim();
+    } else if (/^--\s*Timeout\s*:/i.test(line)) {
+      // Statement timeout, e.g. -- Timeout: 30s
+      metadata.timeout = line.replace(/^--\s*Timeout\s*:/i, "").trim();
+    } else if (/^--\s*LockTimeout\s*:/i.test(line)) {
+      // Lock wait timeout, e.g. -- LockTimeout: 5s
+      metadata.lockTimeout = line.replace(/^--\s*LockTimeout\s*:/i, "").trim();
+    } else if (/^--\s*Batch\s*:/i.test(line)) {
+      // Batch mode row limit, e.g. -- Batch: 5000
+      metadata.batch = line.replace(/^--\s*Batch\s*:/i, "").trim();
+    } else if (/^--\s*BatchSleep\s*:/i.test(line)) {
+      // Pause between batches, e.g. -- BatchSleep: 500ms
+      metadata.batchSleep = line.replace(/^--\s*BatchSleep\s*:/i, "").trim();
+    } else if (/^--\s*Param\s*:/i.test(line)) {
+      // Typed input, e.g. -- Param: account_id int required (one per line)
+      metadata.params = [
+        ...(metadata.params || []),
+        line.replace(/^--\s*Param\s*:/i, "").trim(),
+      ];
+    } else if (/^--\s*ExpectedRows\s*:/i.test(line)) {
+      // Allowed rows affected, e.g. -- ExpectedRows: 120 or 100-150
+      metadata.expectedRows = line
+        .replace(/^--\s*ExpectedRows\s*:/i, "")
+        .trim();
+    } else if (/^--\s*Assert\s+(before|after)\s*:/i.test(line)) {
+      // Check run in the script's transaction, e.g.
+      // -- Assert after: SELECT count(*) = 0 FROM orders WHERE total < 0
+      const match = line.match(/^--\s*Assert\s+(before|after)\s*:(.*)$/i)!;
+      metadata.assertions = [
+        ...(metadata.assertions || []),
+        { phase: match[1].toLowerCase(), sql: match[2].trim() },
+      ];
+    } else if (/^--\s*RunAs\s*:/i.test(line)) {
+      // Role the script runs as (SET ROLE), e.g. -- RunAs: app_migrator
+      metadata.runAs = line.replace(/^--\s*RunAs\s*:/i, "").trim();
+    } else if (/^--\s*ReadOnly\b/i.test(line)) {
+      // Runs in a read-only transaction; -- ReadOnly: false hides the "Queries
+      // only" hint on scripts that only query
+      const match = line.match(/^--\s*ReadOnly\s*:?\s*(\S+)?/i);
+      metadata.readOnly =
+        !match?.[1] || ["true", "yes", "1"].includes(match[1].toLowerCase());
+    } else if (/^--\s*Repeatable\b/i.test(line)) {
+      // May run again where it already succeeded, e.g. -- Repeatable
+      const match = line.match(/^--\s*Repeatable\s*:?\s*(\S+)?/i);
+      metadata.repeatable =
+        !match?.[1] || ["true", "yes", "1"].includes(match[1].toLowerCase());
     } else if (
       lowerLine.includes("directprod") ||
       lowerLine.includes("direct-prod") ||
@@ -266,10 +424,12 @@ export async function syncScriptsFromGitHub(
   addApprovedScript: (data: {
     scriptName: string;
     scriptContent: string;
-    targetDatabase: "staging" | "production";
+    targetDatabase: string;
     githubPrUrl: string;
     approvers: string[];
     directProd?: boolean;
+    repeatable?: boolean;
+    rollbackContent?: string | null;
   }) => Promise<boolean>,
   getExistingScriptNames: () => Promise<string[]>,
   minApprovals: number
@@ -322,9 +482,14 @@ export async function syncScriptsFromGitHub(
         continue;
       }
 
+      // Rollback companions are stored with their forward script
+      const scriptPaths = [
+        ...new Set(sqlFiles.map((f) => forwardScriptPath(f.filename))),
+      ];
+
       // Process each SQL file
-      for (const file of sqlFiles) {
-        const scriptName = file.filename.split("/").pop() || file.filename;
+      for (const scriptPath of scriptPaths) {
+        const scriptName = scriptPath.split("/").pop() || scriptPath;
 
         // Skip if script already exists
         if (existingSet.has(scriptName)) {
@@ -335,9 +500,9 @@ export async function syncScriptsFromGitHub(
         }
 
         // Fetch the file content first to parse metadata
-        let content: string | null;
+        let script: { content: string; rollbackContent: string | null } | null;
         try {
-          content = await fetchScriptFromGitHub(file.filename);
+          script = await fetchScriptWithRollback(scriptPath);
         } catch (error: any) {
           // Handle deleted files gracefully - they may have been deleted after PR merge
           if (error?.status === 404 || error?.message?.includes("404")) {
@@ -354,21 +519,24 @@ export async function syncScriptsFromGitHub(
           continue;
         }
 
-        if (!content) {
+        if (!script) {
           skippedReasons["no_content"] =
             (skippedReasons["no_content"] || 0) + 1;
           stats.skipped++;
           continue;
         }
+        const content = script.content;
 
         // Parse metadata to check for DirectProd flag
         const metadata = parseSQLMetadata(content);
         const directProd = metadata.directProd === true;
+        const repeatable = metadata.repeatable === true;
 
-        // Extract target database (defaults to staging for new workflow)
-        // All scripts start as staging, unless they have DirectProd flag
+        // Extract target database (defaults to the first environment)
+        // All scripts start there, unless they have DirectProd flag
         const targetDb =
-          extractTargetDatabase(file.filename, content) || "staging";
+          extractTargetDatabase(scriptPath, content) ||
+          config.environments[0].name;
 
         // Add to approved scripts
         const success = await addApprovedScript({
@@ -378,12 +546,15 @@ export async function syncScriptsFromGitHub(
           githubPrUrl: pr.html_url,
           approvers,
           directProd,
+          repeatable,
+          rollbackContent: script.rollbackContent,
         });
 
         if (success) {
           const directProdFlag = directProd ? " (DirectProd)" : "";
+          const rollbackFlag = script.rollbackContent ? " (+rollback)" : "";
           console.log(
-            `   ✓ Synced: ${scriptName} from PR #${pr.number}${directProdFlag}`
+            `   ✓ Synced: ${scriptName} from PR #${pr.number}${directProdFlag}${rollbackFlag}`
           );
           stats.synced++;
           existingSet.add(scriptName); // Add to set to avoid duplicates in same sync
@@ -0,0 +1,975 @@
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+import { config, getEnvironment } from "~/config.server";
+import type { GroupMember } from "~/config.server";
+import {
+  pools,
+  executeSQL,
+  getScriptById,
+  canExecuteOn,
+  promotionError,
+  updateScriptExecutionStatus,
+  clearScriptExecutionStatus,
+  getRevertableExecution,
+  signalBackend,
+  resolveMembers,
+  blocksRerun,
+  rerunError,
+  lockExecution,
+} from "./db.server";
+import type { ExecutionControl } from "./db.server";
+import { logExecution } from "./audit.server";
+import { artifactSink, linkArtifacts } from "./artifacts.server";
+import { getQueryPlanById } from "./plans.server";
+import type {
+  ApprovedScript,
+  DriftAcknowledgement,
+  ExecutionJob,
+  ExecutionResult,
+  JobMember,
+  JobStatus,
+  ParamValues,
+} from "./types";
+
+// Identifies this server process in execution_jobs.worker_id
+const workerId = `${hostname()}:${process.pid}:${randomBytes(3).toString(
+  "hex"
+)}`;
+
+// Raised by enqueueExecution when the script already has a queued or
+// running job on the target
+export class ActiveJobError extends Error {}
+
+// Queue an execution for the background worker. A unique index allows one
+// active (non dry run) job per script and target, so of two simultaneous
+// requests only one is queued.
+export async function enqueueExecution(data: {
+  scriptId: number;
+  scriptName: string;
+  targetDatabase: string;
+  mode: "execute" | "dry_run" | "revert";
+  requestedBy: string;
+  queryPlanId?: number | null;
+  revertsExecutionId?: number | null;
+  parameters?: ParamValues | null;
+  // Schema drift the requester acknowledged, kept with the execution
+  schemaDrift?: DriftAcknowledgement | null;
+  // Scheduled runs wait until scheduledFor; a maintenance window run must
+  // also start before runBefore
+  scheduledFor?: Date | null;
+  runBefore?: Date | null;
+}): Promise<ExecutionJob> {
+  let result;
+  try {
+    result = await insertJob(data);
+  } catch (error: any) {
+    if (
+      error?.code === "23505" &&
+      error?.constraint === "idx_execution_jobs_active"
+    ) {
+      const holder = await findActiveJob(data.scriptId, data.targetDatabase);
+      throw new ActiveJobError(
+        holder
+          ? describeActiveJob(holder)
+          : `${data.scriptName} is already queued or running on ${data.targetDatabase}`
+      );
+    }
+    throw error;
+  }
+  return result.rows[0];
+}
+
+function insertJob(data: Parameters<typeof enqueueExecution>[0]) {
+  return pools.audit.query(
+    `INSERT INTO execution_jobs
+     (script_id, script_name, target_database, mode, requested_by,
+      query_plan_id, reverts_execution_id, parameters, scheduled_for,
+      run_before, schema_drift)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+     RETURNING *`,
+    [
+      data.scriptId,
+      data.scriptName,
+      data.targetDatabase,
+      data.mode,
+      data.requestedBy,
+      data.queryPlanId ?? null,
+      data.revertsExecutionId ?? null,
+      data.parameters ? JSON.stringify(data.parameters) : null,
+      data.scheduledFor || null,
+      data.runBefore || null,
+      data.schemaDrift ? JSON.stringify(data.schemaDrift) : null,
+    ]
+  );
+}
+
+// Get job by ID
+export async function getJobById(id: number): Promise<ExecutionJob | null> {
+  try {
+    const result = await pools.audit.query(
+      `SELECT * FROM execution_jobs WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] || null;
+  } catch (error) {
+    console.error("Error fetching job:", error);
+    return null;
+  }
+}
+
+// Get queued and running jobs for a script
+export async function getActiveJobs(scriptId: number): Promise<ExecutionJob[]> {
+  try {
+    const result = await pools.audit.query(
+      `SELECT * FROM execution_jobs
+       WHERE script_id = $1 AND status IN ('queued', 'running')
+       ORDER BY created_at`,
+      [scriptId]
+    );
+    return result.rows;
+  } catch (error) {
+    console.error("Error fetching active jobs:", error);
+    return [];
+  }
+}
+
+// Scheduled executions that haven't started yet, soonest first
+export async function getScheduledJobs(): Promise<ExecutionJob[]> {
+  try {
+    const result = await pools.audit.query(
+      `SELECT * FROM execution_jobs
+       WHERE status = 'queued' AND scheduled_for IS NOT NULL
+       ORDER BY scheduled_for`
+    );
+    return result.rows;
+  } catch (error) {
+    console.error("Error fetching scheduled jobs:", error);
+    return [];
+  }
+}
+
+// Whether a job is waiting for its scheduled time
+export function isScheduled(job: ExecutionJob): boolean {
+  return (
+    job.status === "queued" &&
+    job.scheduled_for !== null &&
+    new Date(job.scheduled_for) > new Date()
+  );
+}
+
+// Another queued or running job of a script on a target, if any. Dry runs
+// always roll back, so they don't count.
+export async function findActiveJob(
+  scriptId: number,
+  targetDatabase: string,
+  exceptJobId?: number
+): Promise<ExecutionJob | null> {
+  const jobs = await getActiveJobs(scriptId);
+  return (
+    jobs.find(
+      (job) =>
+        job.target_database === targetDatabase &&
+        job.id !== exceptJobId &&
+        job.mode !== "dry_run"
+    ) || null
+  );
+}
+
+// "Already running" message for a job that blocks another one
+export function describeActiveJob(job: ExecutionJob): string {
+  if (isScheduled(job)) {
+    return `${job.script_name} is already scheduled on ${
+      job.target_database
+    } for ${new Date(job.scheduled_for!).toLocaleString()} by ${
+      job.requested_by
+    } (job #${job.id})`;
+  }
+  return `${job.script_name} is already ${
+    job.status === "queued" ? "queued" : "running"
+  } on ${job.target_database} by ${job.requested_by} (job #${job.id})`;
+}
+
+// Cancel a job. Queued jobs are dropped; running jobs get their backend
+// signalled and the worker records the cancellation in the audit log.
+export async function cancelJob(
+  jobId: number,
+  cancelledBy: string,
+  options: { terminate?: boolean } = {}
+): Promise<{ success: boolean; error?: string; message?: string }> {
+  // Queued jobs never started - nothing to signal
+  const dropped = await pools.audit.query(
+    `UPDATE execution_jobs
+     SET status = 'cancelled', finished_at = NOW(),
+         cancel_requested_by = $2, cancel_requested_at = NOW(),
+         message = 'Cancelled before it started'
+     WHERE id = $1 AND status = 'queued'
+     RETURNING *`,
+    [jobId, cancelledBy]
+  );
+  if (dropped.rows.length > 0) {
+    // Scheduled executions stay in the audit trail even if they never ran
+    const job: ExecutionJob = dropped.rows[0];
+    if (job.scheduled_for) {
+      await logSkippedJob(
+        job,
+        `Scheduled execution cancelled by ${cancelledBy} before it ran`,
+        { cancelledBy, cancelledAt: job.cancel_requested_at || new Date() }
+      );
+    }
+    return { success: true };
+  }
+
+  const result = await pools.audit.query(
+    `UPDATE execution_jobs
+     SET cancel_requested_by = COALESCE(cancel_requested_by, $2),
+         cancel_requested_at = COALESCE(cancel_requested_at, NOW()),
+         terminate_requested = COALESCE(terminate_requested, false) OR $3
+     WHERE id = $1 AND status = 'running'
+     RETURNING *`,
+    [jobId, cancelledBy, options.terminate === true]
+  );
+  const job: ExecutionJob | undefined = result.rows[0];
+  if (!job) {
+    return { success: false, error: "Execution is no longer running" };
+  }
+
+  // Target group members are signalled by the worker - it picks the request
+  // up on its next heartbeat
+  if (getEnvironment(job.target_database)?.group) {
+    return {
+      success: true,
+      message: options.terminate
+        ? "Terminate requested - each member's backend is ended on the next heartbeat"
+        : undefined,
+    };
+  }
+  // Between statements there is no backend query to signal; the execution
+  // stops before its next statement. A terminate can't be delivered then,
+  // which the worker also notes on the job.
+  if (!job.backend_pid) {
+    return {
+      success: true,
+      message: options.terminate
+        ? "No database backend is recorded for this execution yet, so nothing was terminated - it stops before its next statement"
+        : undefined,
+    };
+  }
+  return signalBackend(job.target_database, job.backend_pid, {
+    ...options,
+    replica: job.backend_replica === true,
+  });
+}
+
+// Audit log entry (status cancelled) for a job that never ran, returning its id
+async function logSkippedJob(
+  job: ExecutionJob,
+  reason: string,
+  cancel: { cancelledBy?: string; cancelledAt?: Date } = {}
+): Promise<number | null> {
+  const script = await getScriptById(job.script_id);
+  return logExecution({
+    scriptName: job.script_name,
+    scriptContent: script?.script_content || "",
+    executedBy: job.requested_by,
+    targetDatabase: job.target_database,
+    status: "cancelled",
+    errorMessage: reason,
+    githubPrUrl: script?.github_pr_url || undefined,
+    approvers: Array.isArray(script?.approvers) ? script?.approvers : [],
+    cancelledBy: cancel.cancelledBy,
+    cancelledAt: cancel.cancelledAt,
+    parameters: job.parameters,
+    scheduledFor: job.scheduled_for,
+  });
+}
+
+// Summarize an execution result for the job's status message
+function describeResult(result: ExecutionResult, reverted = false): string {
+  // resultRows is only a preview - report the full count of that statement
+  const returned = [...(result.statements || [])]
+    .reverse()
+    .find((statement) => statement.rows && statement.rows.length > 0);
+  const returnedCount = returned?.rowCount ?? result.resultRows?.length ?? 0;
+  const hasResults = result.resultRows && result.resultRows.length > 0;
+  const resultMsg = hasResults
+    ? `Returned ${returnedCount.toLocaleString()} row${
+        returnedCount !== 1 ? "s" : ""
+      }`
+    : `${result.rowsAffected || 0} row${
+        (result.rowsAffected || 0) !== 1 ? "s" : ""
+      } affected`;
+  const batchMsg = result.batch
+    ? ` over ${result.batch.count} batch${result.batch.count !== 1 ? "es" : ""}`
+    : "";
+  if (reverted) {
+    return `Reverted with the rollback script. ${resultMsg}${batchMsg} in ${result.executionTime}ms`;
+  }
+  return result.dryRun
+    ? `Dry run completed and rolled back. ${resultMsg}${batchMsg} in ${result.executionTime}ms`
+    : `Successfully executed. ${resultMsg}${batchMsg} in ${result.executionTime}ms`;
+}
+
+// Mark a job finished
+async function finishJob(
+  jobId: number,
+  status: JobStatus,
+  fields: {
+    executionLogId?: number | null;
+    message?: string;
+    errorMessage?: string;
+  }
+) {
+  await pools.audit.query(
+    `UPDATE execution_jobs
+     SET status = $2, finished_at = NOW(), execution_log_id = $3,
+         message = $4, error_message = $5
+     WHERE id = $1`,
+    [
+      jobId,
+      status,
+      fields.executionLogId ?? null,
+      fields.message || null,
+      fields.errorMessage || null,
+    ]
+  );
+}
+
+// Heartbeat keeps the job from being marked interrupted and picks up
+// cancel requests made from any server instance. onCancel runs on the first
+// beat that sees a request, and once more if it is later escalated to a
+// terminate.
+function startHeartbeat(
+  job: ExecutionJob,
+  onCancel: (request: {
+    cancelledBy: string;
+    cancelledAt: Date;
+    terminate: boolean;
+    backendPid: number | null;
+    backendReplica: boolean;
+  }) => Promise<void>
+): NodeJS.Timeout {
+  let cancelSeen = false;
+  let terminateSeen = false;
+  return setInterval(async () => {
+    try {
+      const beat = await pools.audit.query(
+        `UPDATE execution_jobs SET heartbeat_at = NOW()
+         WHERE id = $1
+         RETURNING cancel_requested_by, cancel_requested_at,
+                   terminate_requested, backend_pid, backend_replica`,
+        [job.id]
+      );
+      const row = beat.rows[0];
+      const terminate = row?.terminate_requested === true;
+      if (
+        row?.cancel_requested_by &&
+        (!cancelSeen || (terminate && !terminateSeen))
+      ) {
+        cancelSeen = true;
+        terminateSeen = terminate;
+        await onCancel({
+          cancelledBy: row.cancel_requested_by,
+          cancelledAt: row.cancel_requested_at,
+          terminate,
+          backendPid: row.backend_pid,
+          backendReplica: row.backend_replica === true,
+        });
+      }
+    } catch (error) {
+      console.error(`Heartbeat failed for job #${job.id}:`, error);
+    }
+  }, Math.min(config.worker.pollIntervalMs, 5000));
+}
+
+// Run a job's script against one database (or target group member) and
+// record it in the audit log
+async function executeAndLog(
+  job: ExecutionJob,
+  script: ApprovedScript,
+  scriptContent: string,
+  control: ExecutionControl,
+  member?: GroupMember
+): Promise<{ result: ExecutionResult; executionLogId: number | null }> {
+  const revert = job.mode === "revert";
+  const result = await executeSQL(job.target_database, scriptContent, {
+    dryRun: job.mode === "dry_run",
+    control,
+    resultSink: artifactSink,
+    params: job.parameters || undefined,
+    // A rollback binds the parameters declared by its forward script
+    paramsDeclaredIn: revert ? script.script_content : undefined,
+    member,
+  });
+
+  // The plan reviewed before the run is kept with its log entry
+  const queryPlan = job.query_plan_id
+    ? await getQueryPlanById(job.query_plan_id)
+    : null;
+
+  // Log the execution (always log, even on error)
+  const executionLogId = await logExecution({
+    scriptName: script.script_name,
+    scriptContent,
+    executedBy: job.requested_by,
+    targetDatabase: job.target_database,
+    targetMember: member?.name,
+    status: result.status,
+    rowsAffected: result.rowsAffected,
+    errorMessage: result.error,
+    executionTimeMs: result.executionTime,
+    githubPrUrl: script.github_pr_url || undefined,
+    approvers: Array.isArray(script.approvers) ? script.approvers : [],
+    resultData: result.resultRows,
+    statementResults: result.statements,
+    statementTimeoutMs: result.timeouts?.statement,
+    lockTimeoutMs: result.timeouts?.lock,
+    cancelledBy: result.cancelledBy,
+    cancelledAt: result.cancelledAt,
+    queryPlan,
+    expectedRowsMin: result.expectedRows?.min,
+    expectedRowsMax: result.expectedRows?.max,
+    batchSize: result.batch?.size,
+    batchCount: result.batch?.count,
+    revertsExecutionId: revert
+      ? job.reverts_execution_id ?? undefined
+      : undefined,
+    parameters: job.parameters,
+    scheduledFor: job.scheduled_for,
+    readOnly: result.readOnly !== undefined,
+    readReplica: result.readOnly?.replica,
+    runAs: result.runAs,
+    notices: result.notices,
+    executionContext: result.context,
+    assertions: result.assertions,
+    schemaSnapshot: result.schemaSnapshot,
+    schemaDrift: job.schema_drift,
+  });
+
+  if (executionLogId) {
+    await linkArtifacts(
+      (result.statements || [])
+        .flatMap((statement) => [
+          statement.artifactId,
+          statement.beforeImage?.artifactId,
+        ])
+        .filter((id): id is number => id !== undefined),
+      executionLogId
+    );
+  }
+  return { result, executionLogId };
+}
+
+// Execute a claimed job and record the outcome in the audit log
+async function runJob(job: ExecutionJob): Promise<void> {
+  const queued = await getScriptById(job.script_id);
+  if (!queued) {
+    await finishJob(job.id, "failed", { errorMessage: "Script not found" });
+    return;
+  }
+
+  // A maintenance window run that couldn't start in time (e.g. the server
+  // was down) waits for someone to reschedule it
+  if (job.run_before && new Date(job.run_before) < new Date()) {
+    const reason = `Missed its maintenance window (ended ${new Date(
+      job.run_before
+    ).toLocaleString()})`;
+    const executionLogId = await logSkippedJob(job, reason);
+    await finishJob(job.id, "failed", { executionLogId, errorMessage: reason });
+    return;
+  }
+
+  // Held for the whole execution; a second job of the same script on the
+  // same target (from any instance) fails instead of running concurrently.
+  // Taken before the checks below, so a run that finished in the meantime
+  // is seen by them. Dry runs always roll back, so they run without it.
+  const releaseLock =
+    job.mode === "dry_run"
+      ? async () => {}
+      : await lockExecution(queued.script_name, job.target_database);
+  if (!releaseLock) {
+    const holder = await findActiveJob(
+      job.script_id,
+      job.target_database,
+      job.id
+    );
+    await finishJob(job.id, "failed", {
+      errorMessage: holder
+        ? describeActiveJob(holder)
+        : `${queued.script_name} is already running on ${job.target_database}`,
+    });
+    return;
+  }
+
+  try {
+    // Re-read the script under the lock: executed_in may have changed
+    const script = await getScriptById(job.script_id);
+    if (!script) {
+      await finishJob(job.id, "failed", { errorMessage: "Script not found" });
+      return;
+    }
+
+    // Reverts run the approved rollback script against the forward
+    // execution they undo; that execution must still be the latest
+    // unreverted one
+    const revert = job.mode === "revert";
+    if (revert) {
+      const forward = await getRevertableExecution(
+        script.script_name,
+        job.target_database
+      );
+      if (!script.rollback_content) {
+        await finishJob(job.id, "failed", {
+          errorMessage: "Script has no rollback script",
+        });
+        return;
+      }
+      if (!forward || forward.id !== job.reverts_execution_id) {
+        await finishJob(job.id, "failed", {
+          errorMessage: `Execution #${job.reverts_execution_id} is no longer the latest unreverted run on ${job.target_database}`,
+        });
+        return;
+      }
+    }
+    const scriptContent = revert
+      ? script.rollback_content || ""
+      : script.script_content;
+
+    // Re-check the promotion rules: they may have changed while queued
+    if (!revert && !(await canExecuteOn(job.script_id, job.target_database))) {
+      await finishJob(job.id, "failed", {
+        errorMessage: promotionError(job.target_database),
+      });
+      return;
+    }
+
+    // Re-check for a re-run where the script already succeeded
+    if (job.mode === "execute" && blocksRerun(script, job.target_database)) {
+      await finishJob(job.id, "failed", {
+        errorMessage: rerunError(script, job.target_database),
+      });
+      return;
+    }
+
+    if (getEnvironment(job.target_database)?.group) {
+      await runGroupJob(job, script, scriptContent);
+    } else {
+      await runSingleJob(job, script, scriptContent);
+    }
+  } finally {
+    await releaseLock();
+  }
+}
+
+// Run a job against an environment's single database
+async function runSingleJob(
+  job: ExecutionJob,
+  script: ApprovedScript,
+  scriptContent: string
+): Promise<void> {
+  const revert = job.mode === "revert";
+  const dryRun = job.mode === "dry_run";
+  const control: ExecutionControl = {
+    onBackendPid: async (pid, replica) => {
+      await pools.audit.query(
+        `UPDATE execution_jobs SET backend_pid = $2, backend_replica = $3
+         WHERE id = $1`,
+        [job.id, pid, replica]
+      );
+    },
+    onProgress: async (progress) => {
+      await pools.audit.query(
+        `UPDATE execution_jobs SET progress = $2 WHERE id = $1`,
+        [job.id, JSON.stringify(progress)]
+      );
+    },
+    refresh: async () => {
+      const current = await getJobById(job.id);
+      if (current?.cancel_requested_by) {
+        control.cancelledBy = current.cancel_requested_by;
+        control.cancelledAt = current.cancel_requested_at || undefined;
+      }
+    },
+  };
+
+  // Set when a terminate was requested while no backend was recorded
+  let terminateUndelivered = false;
+  const heartbeat = startHeartbeat(job, async (request) => {
+    if (request.terminate && !request.backendPid) {
+      terminateUndelivered = true;
+    }
+    if (control.cancelledBy && !request.terminate) return;
+    control.cancelledBy = control.cancelledBy || request.cancelledBy;
+    control.cancelledAt = control.cancelledAt || request.cancelledAt;
+    if (request.backendPid) {
+      await signalBackend(job.target_database, request.backendPid, {
+        terminate: request.terminate,
+        replica: request.backendReplica,
+      });
+    }
+  });
+
+  try {
+    const { result, executionLogId } = await executeAndLog(
+      job,
+      script,
+      scriptContent,
+      control
+    );
+
+    // Update script execution status if successful (dry runs never count);
+    // a successful revert means the script is no longer applied there
+    if (result.success && revert) {
+      await clearScriptExecutionStatus(job.script_id, job.target_database);
+    } else if (result.success && !dryRun) {
+      await updateScriptExecutionStatus(job.script_id, job.target_database);
+    }
+
+    if (result.success) {
+      await finishJob(job.id, "succeeded", {
+        executionLogId,
+        message: describeResult(result, revert),
+      });
+    } else {
+      await finishJob(
+        job.id,
+        result.status === "cancelled" ? "cancelled" : "failed",
+        {
+          executionLogId,
+          errorMessage: `${
+            dryRun
+              ? `Dry run failed (rolled back): ${
+                  result.error || "unknown error"
+                }`
+              : result.error || "Execution failed with unknown error"
+          }${
+            terminateUndelivered
+              ? "; force terminate could not be delivered (no database backend was recorded)"
+              : ""
+          }`,
+        }
+      );
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Run a job against every member of a target group: the canary alone first,
+// then the rest with the group's concurrency. Each member gets its own audit
+// log entry; the job keeps the per-member status matrix.
+async function runGroupJob(
+  job: ExecutionJob,
+  script: ApprovedScript,
+  scriptContent: string
+): Promise<void> {
+  const group = getEnvironment(job.target_database)!.group!;
+  const dryRun = job.mode === "dry_run";
+  const members = await resolveMembers(job.target_database);
+  const states: JobMember[] = members.map((member) => ({
+    name: member.name,
+    canary: member.name === group.canary || undefined,
+    status: "pending",
+  }));
+  await pools.audit.query(
+    `UPDATE execution_jobs SET members = $2 WHERE id = $1`,
+    [job.id, JSON.stringify(states)]
+  );
+
+  // Members update their own entry, so concurrent updates don't collide
+  const updateMember = async (index: number, fields: Partial<JobMember>) => {
+    Object.assign(states[index], fields);
+    await pools.audit.query(
+      `UPDATE execution_jobs
+       SET members = jsonb_set(members, ARRAY[$2::int::text], (members -> $2::int) || $3::jsonb)
+       WHERE id = $1`,
+      [job.id, index, JSON.stringify(fields)]
+    );
+  };
+
+  const controls = new Map<string, ExecutionControl>();
+  const backendPids = new Map<string, number>();
+  const cancel: { by?: string; at?: Date } = {};
+  // Members a terminate request could not reach
+  const undelivered = new Set<string>();
+
+  const heartbeat = startHeartbeat(job, async (request) => {
+    cancel.by = request.cancelledBy;
+    cancel.at = request.cancelledAt;
+    for (const [name, control] of controls) {
+      control.cancelledBy = cancel.by;
+      control.cancelledAt = cancel.at;
+      const pid = backendPids.get(name);
+      const member = members.find((m) => m.name === name);
+      const signalled =
+        pid && member
+          ? await signalBackend(job.target_database, pid, {
+              member,
+              terminate: request.terminate,
+            })
+          : null;
+      if (request.terminate && !signalled?.success) {
+        undelivered.add(name);
+      }
+    }
+  });
+
+  // Whether the member's run succeeded
+  const runMember = async (index: number): Promise<boolean> => {
+    const member = members[index];
+    const control: ExecutionControl = {
+      cancelledBy: cancel.by,
+      cancelledAt: cancel.at,
+      onBackendPid: async (pid) => {
+        backendPids.set(member.name, pid);
+      },
+      onProgress: async (progress) => {
+        await updateMember(index, { progress });
+      },
+      refresh: async () => {
+        const current = await getJobById(job.id);
+        if (current?.cancel_requested_by) {
+          control.cancelledBy = current.cancel_requested_by;
+          control.cancelledAt = current.cancel_requested_at || undefined;
+        }
+      },
+    };
+    controls.set(member.name, control);
+    await updateMember(index, { status: "running" });
+
+    try {
+      const { result, executionLogId } = await executeAndLog(
+        job,
+        script,
+        scriptContent,
+        control,
+        member
+      );
+      await updateMember(index, {
+        status: result.success
+          ? "succeeded"
+          : result.status === "cancelled"
+          ? "cancelled"
+          : "failed",
+        execution_log_id: executionLogId,
+        message: result.success
+          ? describeResult(result)
+          : result.error || "Execution failed with unknown error",
+      });
+      return result.success;
+    } catch (error: any) {
+      console.error(`❌ Job #${job.id} failed on ${member.name}:`, error);
+      await updateMember(index, {
+        status: "failed",
+        message: error.message || "Unknown error occurred",
+      });
+      return false;
+    } finally {
+      controls.delete(member.name);
+      backendPids.delete(member.name);
+    }
+  };
+
+  try {
+    let next = 0;
+    let stopped = false;
+
+    // A failed canary stops the run whatever the failure policy
+    if (group.canary) {
+      next = 1;
+      stopped = !(await runMember(0));
+    }
+
+    const runners = Array.from(
+      { length: Math.min(group.concurrency, members.length - next) },
+      async () => {
+        while (!stopped && !cancel.by && next < members.length) {
+          const succeeded = await runMember(next++);
+          if (!succeeded && group.stopOnFailure) stopped = true;
+        }
+      }
+    );
+    await Promise.all(runners);
+
+    // Members never started
+    for (const state of states) {
+      if (state.status === "pending") {
+        state.status = cancel.by ? "cancelled" : "skipped";
+      }
+    }
+    await pools.audit.query(
+      `UPDATE execution_jobs SET members = $2 WHERE id = $1`,
+      [job.id, JSON.stringify(states)]
+    );
+
+    const count = (status: JobMember["status"]) =>
+      states.filter((state) => state.status === status).length;
+    const failed = states.filter((state) => state.status === "failed");
+
+    if (count("succeeded") === states.length) {
+      if (!dryRun) {
+        await updateScriptExecutionStatus(job.script_id, job.target_database);
+      }
+      await finishJob(job.id, "succeeded", {
+        message: `${
+          dryRun ? "Dry run completed and rolled back on" : "Executed on"
+        } all ${states.length} members of ${job.target_database}`,
+      });
+    } else if (cancel.by) {
+      await finishJob(job.id, "cancelled", {
+        errorMessage: `Cancelled by ${cancel.by} after ${count(
+          "succeeded"
+        )} of ${states.length} members succeeded${
+          undelivered.size > 0
+            ? `; force terminate could not be delivered to ${[
+                ...undelivered,
+              ].join(", ")}`
+            : ""
+        }`,
+      });
+    } else {
+      const skipped = count("skipped");
+      await finishJob(job.id, "failed", {
+        errorMessage: `${failed.length} of ${
+          states.length
+        } members failed (${failed.map((state) => state.name).join(", ")})${
+          skipped > 0 ? `; ${skipped} skipped` : ""
+        }`,
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Mark running jobs whose worker stopped heartbeating (e.g. the server was
+// restarted mid-execution) as interrupted, with an audit log entry each
+export async function markInterruptedJobs(): Promise<number> {
+  try {
+    const result = await pools.audit.query(
+      `UPDATE execution_jobs
+       SET status = 'interrupted', finished_at = NOW(),
+           error_message = 'Server stopped while the execution was running'
+       WHERE status = 'running'
+         AND COALESCE(heartbeat_at, started_at) < NOW() - ($1 || ' milliseconds')::interval
+       RETURNING *`,
+      [String(config.worker.staleAfterMs)]
+    );
+
+    for (const job of result.rows as ExecutionJob[]) {
+      const script = await getScriptById(job.script_id);
+      const executionLogId = await logExecution({
+        scriptName: job.script_name,
+        scriptContent: script?.script_content || "",
+        executedBy: job.requested_by,
+        targetDatabase: job.target_database,
+        status: "interrupted",
+        errorMessage: `Execution job #${job.id} was interrupted; check the ${job.target_database} database for partial changes`,
+        githubPrUrl: script?.github_pr_url || undefined,
+        approvers: Array.isArray(script?.approvers) ? script?.approvers : [],
+        parameters: job.parameters,
+        scheduledFor: job.scheduled_for,
+      });
+      await pools.audit.query(
+        `UPDATE execution_jobs SET execution_log_id = $2 WHERE id = $1`,
+        [job.id, executionLogId]
+      );
+      console.log(
+        `⚠️  Marked job #${job.id} (${job.script_name} on ${job.target_database}) as interrupted`
+      );
+    }
+    return result.rows.length;
+  } catch (error) {
+    console.error("Error marking interrupted jobs:", error);
+    return 0;
+  }
+}
+
+// Claim the oldest queued job that is due (scheduled jobs wait for their
+// time); SKIP LOCKED lets several instances poll safely. Jobs bound to a
+// maintenance window (run_before) are claimed separately from the rest.
+async function claimNextJob(
+  windowBound: boolean
+): Promise<ExecutionJob | null> {
+  const result = await pools.audit.query(
+    `UPDATE execution_jobs
+     SET status = 'running', started_at = NOW(), heartbeat_at = NOW(),
+         worker_id = $1
+     WHERE id = (
+       SELECT id FROM execution_jobs
+       WHERE status = 'queued'
+         AND (scheduled_for IS NULL OR scheduled_for <= NOW())
+         AND (run_before IS NOT NULL) = $2
+       ORDER BY COALESCE(scheduled_for, created_at)
+       FOR UPDATE SKIP LOCKED
+       LIMIT 1
+     )
+     RETURNING *`,
+    [workerId, windowBound]
+  );
+  return result.rows[0] || null;
+}
+
+// Run a claimed job; anything runJob throws fails the job
+async function processJob(job: ExecutionJob): Promise<void> {
+  console.log(
+    `▶️  Running job #${job.id}: ${job.script_name} on ${job.target_database} (${job.mode}) for ${job.requested_by}`
+  );
+  try {
+    await runJob(job);
+  } catch (error: any) {
+    console.error(`❌ Job #${job.id} failed:`, error);
+    await finishJob(job.id, "failed", {
+      errorMessage: error.message || "Unknown error occurred",
+    }).catch((finishError) =>
+      console.error(`Error failing job #${job.id}:`, finishError)
+    );
+  }
+}
+
+let workerBusy = false;
+
+// One polling pass: start the maintenance window jobs that are due, each
+// right away - waiting behind a long execution could make them miss their
+// window - then sweep stale jobs and run the other queued jobs one at a
+// time until none are left
+async function pollJobs() {
+  try {
+    let windowJob = await claimNextJob(true);
+    while (windowJob) {
+      processJob(windowJob);
+      windowJob = await claimNextJob(true);
+    }
+  } catch (error) {
+    console.error("Error starting maintenance window jobs:", error);
+  }
+
+  if (workerBusy) return;
+  workerBusy = true;
+  try {
+    await markInterruptedJobs();
+    let job = await claimNextJob(false);
+    while (job) {
+      await processJob(job);
+      job = await claimNextJob(false);
+    }
+  } catch (error) {
+    console.error("Error polling execution jobs:", error);
+  } finally {
+    workerBusy = false;
+  }
+}
+
+// Start the background worker (once per process, even across dev reloads)
+export function startExecutionWorker() {
+  const globalState = globalThis as typeof globalThis & {
+    __executionWorker?: NodeJS.Timeout;
+  };
+  if (globalState.__executionWorker) return;
+
+  globalState.__executionWorker = setInterval(
+    pollJobs,
+    config.worker.pollIntervalMs
+  );
+  console.log(`✓ Execution worker started (${workerId})`);
+  pollJobs();
+}
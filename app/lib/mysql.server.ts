@@ -0,0 +1,393 @@
+import mysql from "mysql2";
+import type { FieldPacket, PoolConnection, ResultSetHeader } from "mysql2";
+import type {
+  DatabaseDriver,
+  DriverConnection,
+  DriverNotice,
+  DriverResult,
+} from "./drivers.server";
+import type { TableSchema } from "./types";
+import { leadingKeywords } from "./sql";
+
+// Rows handed on per batch while streaming a result set
+const STREAM_BATCH_ROWS = 1000;
+
+// innodb_lock_wait_timeout and lock_wait_timeout are whole seconds; "no
+// limit" is their maximum
+const MAX_LOCK_WAIT_SECONDS = 31536000;
+
+type Queryable = Pick<PoolConnection, "query" | "execute">;
+
+// Promise form of a callback query. Statements with values run as
+// server-side prepared statements (execute), so the values are bound by the
+// server rather than inlined into the SQL by the client.
+function run(
+  target: Queryable,
+  sql: string,
+  values: (string | number | null)[] = []
+): Promise<{ result: any; fields: FieldPacket[] | undefined }> {
+  return new Promise((resolve, reject) => {
+    const callback = (error: any, result: any, fields: FieldPacket[]) => {
+      if (error) reject(error);
+      else resolve({ result, fields });
+    };
+    if (values.length > 0) target.execute(sql, values, callback);
+    else target.query(sql, callback);
+  });
+}
+
+// Rows come back as an array; DML as a ResultSetHeader
+function toResult(
+  sql: string,
+  result: any,
+  fields: FieldPacket[] | undefined
+): DriverResult {
+  const command = leadingKeywords(sql, 1, "mysql")[0] || null;
+  if (Array.isArray(result)) {
+    return {
+      command,
+      rowCount: result.length,
+      columns: (fields || []).map((field) => field.name),
+      rows: result,
+    };
+  }
+  return {
+    command,
+    rowCount: (result as ResultSetHeader).affectedRows ?? null,
+    columns: [],
+    rows: [],
+  };
+}
+
+// A table by [database.]name; unqualified names are in the default database
+const TABLE_FILTER =
+  "TABLE_SCHEMA = COALESCE(?, DATABASE()) AND TABLE_NAME = ?";
+
+// Indexes as "[UNIQUE ]type (columns)"; constraints as "type (columns)",
+// plus what a foreign key references
+const DESCRIBE_INDEXES = `
+  SELECT INDEX_NAME AS name,
+         CONCAT(IF(NON_UNIQUE = 0, 'UNIQUE ', ''), INDEX_TYPE, ' (',
+                GROUP_CONCAT(COLUMN_NAME ORDER BY SEQ_IN_INDEX SEPARATOR ', '),
+                ')') AS definition
+  FROM information_schema.STATISTICS
+  WHERE ${TABLE_FILTER}
+  GROUP BY INDEX_NAME, NON_UNIQUE, INDEX_TYPE
+  ORDER BY INDEX_NAME`;
+const DESCRIBE_CONSTRAINTS = `
+  SELECT tc.CONSTRAINT_NAME AS name,
+         CONCAT(tc.CONSTRAINT_TYPE,
+                IFNULL(CONCAT(' (', GROUP_CONCAT(k.COLUMN_NAME
+                  ORDER BY k.ORDINAL_POSITION SEPARATOR ', '), ')'), ''),
+                IFNULL(CONCAT(' REFERENCES ', MAX(k.REFERENCED_TABLE_NAME), ' (',
+                  GROUP_CONCAT(k.REFERENCED_COLUMN_NAME
+                    ORDER BY k.ORDINAL_POSITION SEPARATOR ', '), ')'), '')
+         ) AS definition
+  FROM information_schema.TABLE_CONSTRAINTS tc
+  LEFT JOIN information_schema.KEY_COLUMN_USAGE k
+    ON k.CONSTRAINT_SCHEMA = tc.CONSTRAINT_SCHEMA
+   AND k.TABLE_NAME = tc.TABLE_NAME
+   AND k.CONSTRAINT_NAME = tc.CONSTRAINT_NAME
+  WHERE tc.TABLE_SCHEMA = COALESCE(?, DATABASE()) AND tc.TABLE_NAME = ?
+  GROUP BY tc.CONSTRAINT_NAME, tc.CONSTRAINT_TYPE
+  ORDER BY tc.CONSTRAINT_NAME`;
+
+// Lock wait limit in MySQL's whole seconds (0 ms: no limit)
+function lockWaitSeconds(ms: number): number {
+  return ms > 0 ? Math.max(Math.ceil(ms / 1000), 1) : MAX_LOCK_WAIT_SECONDS;
+}
+
+function wrapConnection(connection: PoolConnection): DriverConnection {
+  const listeners = new Set<(notice: DriverNotice) => void>();
+  let role: string | undefined;
+
+  // MySQL keeps warnings until the next statement: read them while they last
+  async function collectWarnings() {
+    if (listeners.size === 0) return;
+    const { result } = await run(connection, "SHOW WARNINGS");
+    for (const warning of result as any[]) {
+      const notice: DriverNotice = {
+        severity: String(warning.Level || "Warning").toUpperCase(),
+        message: String(warning.Message || ""),
+        code: warning.Code !== undefined ? String(warning.Code) : undefined,
+      };
+      listeners.forEach((listener) => listener(notice));
+    }
+  }
+
+  return {
+    backendId: connection.threadId ?? undefined,
+
+    // Whole numbers computed here, so they are written into the SET rather
+    // than prepared
+    async configure(settings) {
+      const statement = Math.trunc(settings.statementTimeoutMs);
+      const lockWait = lockWaitSeconds(settings.lockTimeoutMs);
+      const readOnly = settings.readOnly ? 1 : 0;
+      await run(
+        connection,
+        `SET SESSION max_execution_time = ${statement},
+                     innodb_lock_wait_timeout = ${lockWait},
+                     lock_wait_timeout = ${lockWait},
+                     transaction_read_only = ${readOnly}`
+      );
+      if (settings.role) {
+        await run(connection, `SET ROLE ${connection.escape(settings.role)}`);
+        role = settings.role;
+      }
+    },
+
+    async query(text, values = []) {
+      const { result, fields } = await run(connection, text, values);
+      await collectWarnings();
+      return toResult(text, result, fields);
+    },
+
+    // Rows are read off the socket as they arrive; the connection is paused
+    // while a batch is handed on
+    stream(text, values, onColumns, onRows) {
+      return new Promise((resolve, reject) => {
+        let batch: any[][] = [];
+        let rowCount = 0;
+        let affected: number | null = null;
+        let pending: Promise<void> = Promise.resolve();
+        let failed = false;
+
+        const flush = () => {
+          const rows = batch;
+          batch = [];
+          pending = pending.then(() => onRows(rows));
+        };
+
+        const query =
+          values.length > 0
+            ? connection.execute({ sql: text, rowsAsArray: true }, values)
+            : connection.query({ sql: text, rowsAsArray: true });
+        query
+          .on("fields", (fields: FieldPacket[]) => {
+            pending = pending.then(() =>
+              onColumns(fields.map((field) => field.name))
+            );
+          })
+          .on("result", (row: any) => {
+            if (!Array.isArray(row)) {
+              affected = (row as ResultSetHeader).affectedRows ?? null;
+              return;
+            }
+            batch.push(row);
+            rowCount++;
+            if (batch.length >= STREAM_BATCH_ROWS) {
+              connection.pause();
+              flush();
+              pending.then(
+                () => connection.resume(),
+                () => connection.resume()
+              );
+            }
+          })
+          .on("error", (error: Error) => {
+            failed = true;
+            reject(error);
+          })
+          .on("end", () => {
+            if (failed) return;
+            if (batch.length > 0) flush();
+            pending
+              .then(() => collectWarnings())
+              .then(
+                () =>
+                  resolve({
+                    command: leadingKeywords(text, 1, "mysql")[0] || null,
+                    rowCount: affected ?? rowCount,
+                  }),
+                reject
+              );
+          });
+      });
+    },
+
+    async begin(readOnly) {
+      await run(
+        connection,
+        readOnly ? "START TRANSACTION READ ONLY" : "START TRANSACTION"
+      );
+    },
+
+    async commit() {
+      await run(connection, "COMMIT");
+    },
+
+    async rollback() {
+      await run(connection, "ROLLBACK");
+    },
+
+    // MySQL has no search_path: the default database plays its part
+    async context() {
+      const { result } = await run(
+        connection,
+        "SELECT VERSION() AS server_version, DATABASE() AS db, CURRENT_USER() AS user"
+      );
+      const row = result[0];
+      return {
+        driver: "mysql",
+        serverVersion: row.server_version,
+        database: row.db || "",
+        currentUser: row.user,
+        searchPath: row.db || "",
+      };
+    },
+
+    async describeTables(tables) {
+      const schemas: TableSchema[] = [];
+      for (const table of tables) {
+        const parts = table.split(".");
+        const name = parts.pop()!;
+        const filter = [parts.pop() ?? null, name];
+        const { result: found } = await run(
+          connection,
+          `SELECT 1 FROM information_schema.TABLES WHERE ${TABLE_FILTER}`,
+          filter
+        );
+        if (found.length === 0) {
+          schemas.push({
+            table,
+            exists: false,
+            columns: [],
+            indexes: [],
+            constraints: [],
+          });
+          continue;
+        }
+        const { result: columns } = await run(
+          connection,
+          `SELECT COLUMN_NAME AS name, COLUMN_TYPE AS type,
+                  IS_NULLABLE AS nullable, COLUMN_DEFAULT AS column_default
+           FROM information_schema.COLUMNS
+           WHERE ${TABLE_FILTER}
+           ORDER BY ORDINAL_POSITION`,
+          filter
+        );
+        const { result: indexes } = await run(
+          connection,
+          DESCRIBE_INDEXES,
+          filter
+        );
+        const { result: constraints } = await run(
+          connection,
+          DESCRIBE_CONSTRAINTS,
+          filter
+        );
+        schemas.push({
+          table,
+          exists: true,
+          columns: (columns as any[]).map((column) => ({
+            name: column.name,
+            type: column.type,
+            nullable: column.nullable === "YES",
+            default: column.column_default ?? null,
+          })),
+          indexes: (indexes as any[]).map(({ name, definition }) => ({
+            name,
+            definition,
+          })),
+          constraints: (constraints as any[]).map(({ name, definition }) => ({
+            name,
+            definition,
+          })),
+        });
+      }
+      return schemas;
+    },
+
+    onNotice(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async release(reset) {
+      listeners.clear();
+      if (!reset) {
+        connection.release();
+        return;
+      }
+      try {
+        await run(
+          connection,
+          `SET SESSION max_execution_time = DEFAULT,
+                       innodb_lock_wait_timeout = DEFAULT,
+                       lock_wait_timeout = DEFAULT,
+                       transaction_read_only = DEFAULT`
+        );
+        if (role) await run(connection, "SET ROLE DEFAULT");
+        connection.release();
+      } catch (error) {
+        connection.destroy();
+      }
+    },
+  };
+}
+
+// MySQL (8.0+) through a mysql2 pool. DDL commits implicitly, so scripts
+// with DDL can't run as one transaction; there are no JSON plans or before
+// images, and max_execution_time only limits SELECT statements.
+// Statements with parameter values are sent as prepared statements. MySQL
+// can't prepare everything - e.g. LOCK TABLES, XA, SET TRANSACTION, CHECK
+// TABLE or a statement that prepares another (PREPARE/EXECUTE) - so a
+// script using parameters in one of those fails with ER_UNSUPPORTED_PS
+// instead of having its values inlined.
+export function createMySQLDriver(
+  url: string,
+  options: { max?: number } = {}
+): DatabaseDriver {
+  const pool = mysql.createPool({
+    uri: url,
+    connectionLimit: options.max ?? 10,
+  });
+  return {
+    name: "mysql",
+    features: {
+      transactionalDDL: false,
+      roles: true,
+      plans: false,
+      beforeImages: false,
+      placeholders: "anonymous",
+    },
+
+    connect() {
+      return new Promise((resolve, reject) => {
+        pool.getConnection((error, connection) => {
+          if (error) reject(error);
+          else resolve(wrapConnection(connection));
+        });
+      });
+    },
+
+    async query(text, values = []) {
+      const { result, fields } = await run(pool, text, values);
+      return toResult(text, result, fields);
+    },
+
+    // KILL QUERY stops the current statement, KILL closes the connection
+    async cancel(backendId, terminate) {
+      await run(
+        pool,
+        `KILL ${terminate ? "" : "QUERY "}${Math.trunc(backendId)}`
+      );
+      return true;
+    },
+
+    // ER_QUERY_TIMEOUT (MariaDB: ER_STATEMENT_TIMEOUT), ER_LOCK_WAIT_TIMEOUT
+    timeoutKind(error) {
+      if (error?.errno === 3024 || error?.errno === 1969) return "statement";
+      if (error?.errno === 1205) return "lock";
+      return null;
+    },
+
+    // ER_CANT_EXECUTE_IN_READ_ONLY_TRANSACTION, ER_OPTION_PREVENTS_STATEMENT
+    isReadOnlyViolation(error) {
+      return error?.errno === 1792 || error?.errno === 1290;
+    },
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Script parameters
+ *
+ * Scripts declare typed inputs in their header, e.g.
+ *   -- Param: account_id int required
+ * and reference them as :account_id, or as $1, $2, ... in declaration order.
+ * Values are always bound as query parameters, never interpolated into the
+ * SQL. Shared by the server (binding, validation) and the UI (the input
+ * form), so it has no server-only imports.
+ */
+
+import { namedPlaceholders, tokenize } from "./sql";
+import type { DriverName, ParamType, ParamValues, ScriptParam } from "./types";
+
+// Postgres type each parameter is cast to, and the form input that asks for it
+export const PARAM_TYPES: Record<
+  ParamType,
+  {
+    cast: string;
+    input: "number" | "text" | "date" | "datetime-local" | "boolean" | "json";
+  }
+> = {
+  int: { cast: "integer", input: "number" },
+  bigint: { cast: "bigint", input: "text" },
+  numeric: { cast: "numeric", input: "text" },
+  text: { cast: "text", input: "text" },
+  uuid: { cast: "uuid", input: "text" },
+  boolean: { cast: "boolean", input: "boolean" },
+  date: { cast: "date", input: "date" },
+  timestamp: { cast: "timestamp", input: "datetime-local" },
+  jsonb: { cast: "jsonb", input: "json" },
+};
+
+// Other spellings accepted in declarations
+const TYPE_ALIASES: Record<string, ParamType> = {
+  integer: "int",
+  int4: "int",
+  int8: "bigint",
+  decimal: "numeric",
+  varchar: "text",
+  bool: "boolean",
+  timestamptz: "timestamp",
+  json: "jsonb",
+};
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const INTEGER = /^-?\d+$/;
+const NUMERIC = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Parse the -- Param header values ("account_id int required") in order
+export function parseParams(declarations: string[]): ScriptParam[] {
+  const params: ScriptParam[] = [];
+
+  for (const declaration of declarations) {
+    const [name, rawType, flag, ...rest] = declaration.trim().split(/\s+/);
+    const typeName = (rawType || "").toLowerCase();
+    const type =
+      TYPE_ALIASES[typeName] ||
+      (typeName in PARAM_TYPES ? (typeName as ParamType) : undefined);
+
+    if (!name || !NAME.test(name)) {
+      throw new Error(
+        `Invalid -- Param "${declaration}" (use e.g. -- Param: account_id int required)`
+      );
+    }
+    if (!type) {
+      throw new Error(
+        `Invalid -- Param type "${
+          rawType || ""
+        }" for ${name} (use one of ${Object.keys(PARAM_TYPES).join(", ")})`
+      );
+    }
+    if (
+      rest.length > 0 ||
+      (flag && !["required", "optional"].includes(flag.toLowerCase()))
+    ) {
+      throw new Error(
+        `Invalid -- Param "${declaration}" (only "required" or "optional" may follow the type)`
+      );
+    }
+
+    const lower = name.toLowerCase();
+    if (lower === "batch_size") {
+      throw new Error("-- Param can't be named batch_size (set by -- Batch)");
+    }
+    if (params.some((param) => param.name === lower)) {
+      throw new Error(`-- Param ${name} is declared more than once`);
+    }
+    params.push({
+      name: lower,
+      type,
+      required: flag?.toLowerCase() === "required",
+    });
+  }
+  return params;
+}
+
+// Why a value doesn't fit a parameter type, or null when it does
+function invalidValue(type: ParamType, value: string): string | null {
+  switch (type) {
+    case "int":
+      return INTEGER.test(value) && Math.abs(Number(value)) <= 2147483647
+        ? null
+        : "must be a whole number";
+    case "bigint":
+      return INTEGER.test(value) &&
+        BigInt(value) <= BigInt("9223372036854775807") &&
+        BigInt(value) >= BigInt("-9223372036854775808")
+        ? null
+        : "must be a whole number";
+    case "numeric":
+      return NUMERIC.test(value) ? null : "must be a number";
+    case "uuid":
+      return UUID.test(value) ? null : "must be a UUID";
+    case "boolean":
+      return /^(true|false)$/i.test(value) ? null : "must be true or false";
+    case "date":
+      return DATE.test(value) && !isNaN(Date.parse(value))
+        ? null
+        : "must be a date (YYYY-MM-DD)";
+    case "timestamp":
+      return !isNaN(Date.parse(value)) ? null : "must be a date and time";
+    case "jsonb":
+      try {
+        JSON.parse(value);
+        return null;
+      } catch {
+        return "must be valid JSON";
+      }
+    default:
+      return null;
+  }
+}
+
+// Check submitted values against the declarations. Empty values become
+// null; text is kept as typed, other types are trimmed.
+export function validateParams(
+  params: ScriptParam[],
+  raw: Record<string, string | null | undefined>
+): { values: ParamValues; errors: string[] } {
+  const values: ParamValues = {};
+  const errors: string[] = [];
+
+  for (const param of params) {
+    let value = raw[param.name] ?? "";
+    if (param.type !== "text") value = value.trim();
+
+    if (value === "") {
+      values[param.name] = null;
+      if (param.required) errors.push(`${param.name} is required`);
+      continue;
+    }
+    const problem = invalidValue(param.type, value);
+    if (problem) {
+      errors.push(`${param.name} ${problem}`);
+      continue;
+    }
+    values[param.name] = param.type === "boolean" ? value.toLowerCase() : value;
+  }
+  return { values, errors };
+}
+
+// Rewrite a statement's parameter references - :name for declared names and
+// $n by declaration order - into the statement's own $1..$k (cast to the
+// declared type), returning the values to bind in that order. Drivers with
+// anonymous placeholders (MySQL, SQLite) get one uncast ? per reference
+// instead, with booleans as 1/0. Statements without references are returned
+// unchanged with no values. The statement is read with the target engine's
+// lexical rules, so references inside its strings are left alone.
+export function bindParams(
+  statement: string,
+  params: ScriptParam[],
+  values: ParamValues,
+  placeholders: "numbered" | "anonymous" = "numbered",
+  dialect: DriverName = "postgres"
+): { text: string; values: (string | null)[] } {
+  if (params.length === 0) return { text: statement, values: [] };
+
+  const references: { name: string; start: number; end: number }[] = [];
+  for (const placeholder of namedPlaceholders(statement, dialect)) {
+    if (params.some((param) => param.name === placeholder.name)) {
+      references.push(placeholder);
+    }
+  }
+  for (const token of tokenize(statement, dialect)) {
+    const position =
+      token.type === "parameter" ? parseInt(token.text.slice(1)) : 0;
+    if (position >= 1 && position <= params.length) {
+      references.push({
+        name: params[position - 1].name,
+        start: token.start,
+        end: token.end,
+      });
+    }
+  }
+  references.sort((a, b) => a.start - b.start);
+
+  if (placeholders === "anonymous") {
+    let text = "";
+    let last = 0;
+    for (const reference of references) {
+      text += `${statement.slice(last, reference.start)}?`;
+      last = reference.end;
+    }
+    text += statement.slice(last);
+    return {
+      text,
+      values: references.map(({ name }) => {
+        const value = values[name] ?? null;
+        const param = params.find((p) => p.name === name)!;
+        if (param.type !== "boolean" || value === null) return value;
+        return value === "true" ? "1" : "0";
+      }),
+    };
+  }
+
+  const bound: string[] = [];
+  let text = "";
+  let last = 0;
+  for (const reference of references) {
+    let index = bound.indexOf(reference.name);
+    if (index === -1) {
+      bound.push(reference.name);
+      index = bound.length - 1;
+    }
+    const param = params.find((p) => p.name === reference.name)!;
+    text += `${statement.slice(last, reference.start)}$${index + 1}::${
+      PARAM_TYPES[param.type].cast
+    }`;
+    last = reference.end;
+  }
+  text += statement.slice(last);
+
+  return { text, values: bound.map((name) => values[name] ?? null) };
+}
@@ -0,0 +1,43 @@
+import { pools } from "./db.server";
+import type { QueryPlan, StatementPlan } from "./types";
+
+// Save a plan shown on the script page, so it can be attached to the
+// execution that follows
+export async function saveQueryPlan(data: {
+  scriptId: number;
+  scriptName: string;
+  targetDatabase: string;
+  analyzed: boolean;
+  statements: StatementPlan[];
+  createdBy: string;
+}): Promise<QueryPlan> {
+  const result = await pools.audit.query(
+    `INSERT INTO query_plans
+     (script_id, script_name, target_database, analyzed, statements, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [
+      data.scriptId,
+      data.scriptName,
+      data.targetDatabase,
+      data.analyzed,
+      JSON.stringify(data.statements),
+      data.createdBy,
+    ]
+  );
+  return result.rows[0];
+}
+
+// Get plan by ID
+export async function getQueryPlanById(id: number): Promise<QueryPlan | null> {
+  try {
+    const result = await pools.audit.query(
+      `SELECT * FROM query_plans WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] || null;
+  } catch (error) {
+    console.error("Error fetching query plan:", error);
+    return null;
+  }
+}
@@ -0,0 +1,271 @@
+import { Pool } from "pg";
+import type { PoolClient, QueryResult } from "pg";
+import Cursor from "pg-cursor";
+import type {
+  DatabaseDriver,
+  DriverConnection,
+  DriverNotice,
+  DriverResult,
+} from "./drivers.server";
+import type { TableSchema } from "./types";
+
+// Rows fetched from a server-side cursor per round trip
+const CURSOR_BATCH_ROWS = 1000;
+
+// Read the next batch from a cursor, along with the result's field list
+function readCursor(
+  cursor: Cursor<any[]>,
+  count: number
+): Promise<{ rows: any[][]; result: QueryResult }> {
+  return new Promise((resolve, reject) => {
+    cursor.read(count, (error, rows, result) => {
+      if (error) reject(error);
+      else resolve({ rows, result });
+    });
+  });
+}
+
+// A table the way a script names it: resolved through search_path unless
+// schema-qualified. Views and partitioned tables count too.
+const DESCRIBE_TABLE = `
+  WITH target AS (
+    SELECT c.oid FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relname = $2
+      AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      AND (n.nspname = $1 OR ($1 IS NULL AND pg_table_is_visible(c.oid)))
+    LIMIT 1
+  )
+  SELECT
+    (SELECT json_agg(json_build_object(
+       'name', a.attname,
+       'type', format_type(a.atttypid, a.atttypmod),
+       'nullable', NOT a.attnotnull,
+       'default', pg_get_expr(d.adbin, d.adrelid)) ORDER BY a.attnum)
+     FROM pg_attribute a
+     LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+     WHERE a.attrelid = target.oid AND a.attnum > 0 AND NOT a.attisdropped
+    ) AS columns,
+    (SELECT json_agg(json_build_object(
+       'name', i.indexrelid::regclass::text,
+       'definition', pg_get_indexdef(i.indexrelid))
+       ORDER BY i.indexrelid::regclass::text)
+     FROM pg_index i WHERE i.indrelid = target.oid
+    ) AS indexes,
+    (SELECT json_agg(json_build_object(
+       'name', con.conname,
+       'definition', pg_get_constraintdef(con.oid)) ORDER BY con.conname)
+     FROM pg_constraint con WHERE con.conrelid = target.oid
+    ) AS constraints
+  FROM target`;
+
+function toResult(result: QueryResult): DriverResult {
+  return {
+    command: result.command || null,
+    rowCount: result.rowCount ?? null,
+    columns: (result.fields || []).map((field) => field.name),
+    rows: result.rows || [],
+  };
+}
+
+// A checked-out client with the session helpers executions need
+function wrapClient(client: PoolClient, backendId: number): DriverConnection {
+  return {
+    backendId,
+
+    async configure(settings) {
+      await client.query(
+        `SELECT set_config('statement_timeout', $1, false),
+                set_config('lock_timeout', $2, false),
+                set_config('default_transaction_read_only', $3, false)`,
+        [
+          String(settings.statementTimeoutMs),
+          String(settings.lockTimeoutMs),
+          settings.readOnly ? "on" : "off",
+        ]
+      );
+      if (settings.role) {
+        // SET ROLE, with the role bound as a parameter
+        await client.query("SELECT set_config('role', $1, false)", [
+          settings.role,
+        ]);
+      }
+    },
+
+    async query(text, values = []) {
+      return toResult(await client.query(text, values));
+    },
+
+    // Through a server-side cursor, so only one batch is in memory
+    async stream(text, values, onColumns, onRows) {
+      const cursor = client.query(
+        new Cursor<any[]>(text, values, { rowMode: "array" })
+      );
+      let described = false;
+      let rowCount = 0;
+      try {
+        for (;;) {
+          const { rows, result } = await readCursor(cursor, CURSOR_BATCH_ROWS);
+          if (!described && result.fields.length > 0) {
+            described = true;
+            await onColumns(result.fields.map((field) => field.name));
+          }
+          if (rows.length === 0) {
+            return {
+              command: result.command || null,
+              // Statements without a result set (e.g. SELECT INTO) report
+              // their count in the command tag
+              rowCount: described ? rowCount : result.rowCount || 0,
+            };
+          }
+          await onRows(rows);
+          rowCount += rows.length;
+        }
+      } finally {
+        await cursor.close().catch(() => {
+          // The statement failed - the cursor is already gone
+        });
+      }
+    },
+
+    async begin(readOnly) {
+      await client.query(readOnly ? "BEGIN READ ONLY" : "BEGIN");
+    },
+
+    async commit() {
+      await client.query("COMMIT");
+    },
+
+    async rollback() {
+      await client.query("ROLLBACK");
+    },
+
+    async context() {
+      const result = await client.query(
+        `SELECT current_setting('server_version') AS server_version,
+                current_database() AS database,
+                current_user AS current_user,
+                current_setting('search_path') AS search_path`
+      );
+      const row = result.rows[0];
+      return {
+        driver: "postgres",
+        serverVersion: row.server_version,
+        database: row.database,
+        currentUser: row.current_user,
+        searchPath: row.search_path,
+      };
+    },
+
+    async describeTables(tables) {
+      const schemas: TableSchema[] = [];
+      for (const table of tables) {
+        const parts = table.split(".");
+        const name = parts.pop()!;
+        const result = await client.query(DESCRIBE_TABLE, [
+          parts.pop() ?? null,
+          name,
+        ]);
+        const row = result.rows[0];
+        schemas.push({
+          table,
+          exists: row !== undefined,
+          columns: row?.columns || [],
+          indexes: row?.indexes || [],
+          constraints: row?.constraints || [],
+        });
+      }
+      return schemas;
+    },
+
+    onNotice(listener) {
+      const handler = (notice: Partial<DriverNotice>) =>
+        listener({
+          severity: notice.severity || "NOTICE",
+          message: notice.message || "",
+          code: notice.code,
+          detail: notice.detail,
+          hint: notice.hint,
+          where: notice.where,
+        });
+      client.on("notice", handler);
+      return () => {
+        client.off("notice", handler);
+      };
+    },
+
+    async release(reset) {
+      if (!reset) {
+        client.release();
+        return;
+      }
+      try {
+        await client.query(
+          "RESET statement_timeout; RESET lock_timeout; RESET default_transaction_read_only; RESET ROLE"
+        );
+        client.release();
+      } catch (error) {
+        client.release(true);
+      }
+    },
+  };
+}
+
+// The reference driver: every feature, backed by a pg.Pool
+export function createPostgresDriver(
+  url: string,
+  options: { max?: number } = {}
+): DatabaseDriver {
+  const pool = new Pool({ connectionString: url, max: options.max });
+  return {
+    name: "postgres",
+    features: {
+      transactionalDDL: true,
+      roles: true,
+      plans: true,
+      beforeImages: true,
+      placeholders: "numbered",
+    },
+
+    async connect() {
+      const client = await pool.connect();
+      try {
+        const result = await client.query("SELECT pg_backend_pid() AS pid");
+        return wrapClient(client, result.rows[0].pid);
+      } catch (error) {
+        client.release(true);
+        throw error;
+      }
+    },
+
+    async query(text, values = []) {
+      return toResult(await pool.query(text, values));
+    },
+
+    // pg_cancel_backend cancels the current statement, pg_terminate_backend
+    // ends the whole connection
+    async cancel(backendId, terminate) {
+      const fn = terminate ? "pg_terminate_backend" : "pg_cancel_backend";
+      const result = await pool.query(`SELECT ${fn}($1) AS signalled`, [
+        backendId,
+      ]);
+      return result.rows[0]?.signalled === true;
+    },
+
+    timeoutKind(error) {
+      const message = String(error?.message || "");
+      if (error?.code === "57014" && message.includes("statement timeout")) {
+        return "statement";
+      }
+      if (error?.code === "55P03" && message.includes("lock timeout")) {
+        return "lock";
+      }
+      return null;
+    },
+
+    // 25006 read_only_sql_transaction
+    isReadOnlyViolation(error) {
+      return error?.code === "25006";
+    },
+  };
+}
@@ -0,0 +1,274 @@
+/**
+ * Static risk analysis
+ *
+ * Looks at the statements of a script - not its header comments - for
+ * patterns that are easy to regret in production: UPDATE/DELETE without a
+ * WHERE clause, DROP and TRUNCATE, ALTER TABLE forms that hold an ACCESS
+ * EXCLUSIVE lock, and CREATE INDEX without CONCURRENTLY. Tables the script
+ * creates itself are exempt. Shared by the server (stored findings, policy
+ * checks) and the UI, so it has no server-only imports.
+ */
+
+import {
+  isSignificant,
+  splitStatements,
+  tokenize,
+  unquoteIdentifier,
+} from "./sql";
+import type { SQLStatement, Token } from "./sql";
+import type { DriverName, RiskFinding, RiskRule, RiskSeverity } from "./types";
+
+export const RISK_RULES: Record<
+  RiskRule,
+  { label: string; severity: RiskSeverity }
+> = {
+  unbounded_write: { label: "UPDATE/DELETE without WHERE", severity: "danger" },
+  drop: { label: "DROP", severity: "danger" },
+  truncate: { label: "TRUNCATE", severity: "danger" },
+  exclusive_lock: {
+    label: "ACCESS EXCLUSIVE lock",
+    severity: "warning",
+  },
+  blocking_index: {
+    label: "CREATE INDEX without CONCURRENTLY",
+    severity: "warning",
+  },
+};
+
+// ALTER TABLE subcommands that take a weaker lock than ACCESS EXCLUSIVE
+// (VALIDATE CONSTRAINT, SET STATISTICS, ADD FOREIGN KEY, ATTACH PARTITION,
+// CLUSTER ON, ENABLE/DISABLE TRIGGER, DETACH PARTITION ... CONCURRENTLY)
+const WEAKER_LOCK_WORDS = [
+  "VALIDATE",
+  "STATISTICS",
+  "FOREIGN",
+  "ATTACH",
+  "CLUSTER",
+  "TRIGGER",
+];
+
+// First words of two-word object types in DROP statements
+const MULTI_WORD_TYPES = [
+  "MATERIALIZED",
+  "FOREIGN",
+  "EVENT",
+  "TEXT",
+  "ACCESS",
+  "OPERATOR",
+];
+
+interface Word {
+  upper: string; // Keyword spelling; "" for anything but a plain word
+  token: Token;
+  depth: number; // Parenthesis depth
+}
+
+// Significant tokens of a statement with their parenthesis depth
+function words(statement: string, dialect: DriverName): Word[] {
+  let depth = 0;
+  return tokenize(statement, dialect)
+    .filter(isSignificant)
+    .map((token) => {
+      if (token.text === ")") depth--;
+      const word = {
+        upper: token.type === "word" ? token.text.toUpperCase() : "",
+        token,
+        depth,
+      };
+      if (token.text === "(") depth++;
+      return word;
+    });
+}
+
+// A possibly schema-qualified name starting at words[i]; unquoted parts are
+// lowercased as PostgreSQL does
+function readName(list: Word[], i: number): { name: string; next: number } {
+  const parts: string[] = [];
+  while (i < list.length) {
+    const { token } = list[i];
+    if (token.type === "word") {
+      parts.push(token.text.toLowerCase());
+    } else if (token.type === "quoted_identifier") {
+      parts.push(unquoteIdentifier(token.text));
+    } else {
+      break;
+    }
+    if (list[i + 1]?.token.text !== ".") {
+      i++;
+      break;
+    }
+    i += 2;
+  }
+  return { name: parts.join("."), next: i };
+}
+
+// Index just past the optional keywords at words[i] (e.g. IF EXISTS, ONLY)
+function skip(list: Word[], i: number, ...optional: string[][]): number {
+  for (const sequence of optional) {
+    if (sequence.every((keyword, k) => list[i + k]?.upper === keyword)) {
+      i += sequence.length;
+    }
+  }
+  return i;
+}
+
+// Findings for one statement; tables the script created earlier are skipped
+function analyzeStatement(
+  statement: SQLStatement,
+  created: Set<string>,
+  dialect: DriverName
+): RiskFinding[] {
+  const list = words(statement.text, dialect);
+  const top = list.filter((word) => word.depth === 0);
+  const findings: RiskFinding[] = [];
+  const add = (rule: RiskRule, message: string) =>
+    findings.push({
+      rule,
+      severity: RISK_RULES[rule].severity,
+      statement: statement.index,
+      line: statement.line,
+      message,
+    });
+
+  // The statement's verb, after any WITH clause
+  let verbAt = 0;
+  if (top[0]?.upper === "WITH") {
+    verbAt = top.findIndex((word) =>
+      ["SELECT", "INSERT", "UPDATE", "DELETE", "MERGE"].includes(word.upper)
+    );
+    if (verbAt === -1) return findings;
+  }
+  const verb = top[verbAt]?.upper;
+  const rest = top.slice(verbAt + 1);
+
+  if (verb === "DELETE" || verb === "UPDATE") {
+    const at = skip(rest, verb === "DELETE" ? 1 : 0, ["ONLY"]);
+    const { name } = readName(rest, at);
+    if (!created.has(name) && !rest.some((word) => word.upper === "WHERE")) {
+      add(
+        "unbounded_write",
+        verb === "DELETE"
+          ? `DELETE without WHERE removes every row of ${name}`
+          : `UPDATE without WHERE changes every row of ${name}`
+      );
+    }
+    return findings;
+  }
+
+  if (verb === "TRUNCATE") {
+    let at = skip(rest, 0, ["TABLE"]);
+    const names: string[] = [];
+    while (at < rest.length) {
+      at = skip(rest, at, ["ONLY"]);
+      const { name, next } = readName(rest, at);
+      if (!name) break;
+      if (!created.has(name)) names.push(name);
+      at = rest[next]?.token.text === "," ? next + 1 : rest.length;
+    }
+    if (names.length > 0) {
+      add("truncate", `TRUNCATE empties ${names.join(", ")}`);
+    }
+    return findings;
+  }
+
+  if (verb === "DROP") {
+    // Object type: one keyword, or two for e.g. MATERIALIZED VIEW
+    const length = MULTI_WORD_TYPES.includes(rest[0]?.upper) ? 2 : 1;
+    const kind = rest
+      .slice(0, length)
+      .map((word) => word.upper)
+      .join(" ");
+    const at = skip(rest, length, ["CONCURRENTLY"], ["IF", "EXISTS"]);
+    const { name } = readName(rest, at);
+    if (!created.has(name)) add("drop", `DROP ${kind} ${name}`);
+    if (kind === "TABLE") created.delete(name);
+    return findings;
+  }
+
+  if (verb === "ALTER" && rest[0]?.upper === "TABLE") {
+    const at = skip(rest, 1, ["IF", "EXISTS"], ["ONLY"]);
+    const { name, next } = readName(rest, at);
+    if (created.has(name)) return findings;
+
+    // Subcommands are separated by top-level commas
+    const subcommands: Word[][] = [[]];
+    for (const word of rest.slice(next)) {
+      if (word.token.text === ",") subcommands.push([]);
+      else subcommands[subcommands.length - 1].push(word);
+    }
+    for (const subcommand of subcommands) {
+      const keywords = subcommand.map((word) => word.upper);
+      if (keywords[0] === "DROP") {
+        const what = keywords[1] === "CONSTRAINT" ? "CONSTRAINT" : "COLUMN";
+        const target = skip(subcommand, 1, [what], ["IF", "EXISTS"]);
+        add(
+          "drop",
+          `ALTER TABLE ${name} DROP ${what} ${
+            readName(subcommand, target).name
+          }`
+        );
+      }
+    }
+    const exclusive = subcommands.some((subcommand) => {
+      const keywords = subcommand.map((word) => word.upper);
+      if (keywords[0] === "DETACH" && keywords.includes("CONCURRENTLY")) {
+        return false;
+      }
+      return !keywords.some((keyword) => WEAKER_LOCK_WORDS.includes(keyword));
+    });
+    if (exclusive) {
+      add(
+        "exclusive_lock",
+        `ALTER TABLE ${name} takes an ACCESS EXCLUSIVE lock, blocking reads and writes until it finishes`
+      );
+    }
+    return findings;
+  }
+
+  if (verb === "CREATE") {
+    let at = skip(rest, 0, ["OR", "REPLACE"], ["UNIQUE"]);
+    if (rest[at]?.upper === "INDEX") {
+      const concurrently = rest[at + 1]?.upper === "CONCURRENTLY";
+      const on = rest.findIndex((word) => word.upper === "ON");
+      const { name } = readName(rest, skip(rest, on + 1, ["ONLY"]));
+      if (!concurrently && on !== -1 && !created.has(name)) {
+        add(
+          "blocking_index",
+          `CREATE INDEX on ${name} without CONCURRENTLY blocks writes to it while the index builds`
+        );
+      }
+      return findings;
+    }
+
+    // Remember new tables: working on them can't hurt existing data. With
+    // IF NOT EXISTS the table may already exist, holding data.
+    while (
+      at < rest.length &&
+      ["GLOBAL", "LOCAL", "TEMP", "TEMPORARY", "UNLOGGED"].includes(
+        rest[at].upper
+      )
+    ) {
+      at++;
+    }
+    if (
+      rest[at]?.upper === "TABLE" &&
+      skip(rest, at + 1, ["IF", "NOT", "EXISTS"]) === at + 1
+    ) {
+      const { name } = readName(rest, at + 1);
+      if (name) created.add(name);
+    }
+  }
+  return findings;
+}
+
+// Risk findings for a script, in statement order, read with the lexical
+// rules of the engine it targets
+export function analyzeRisk(
+  sql: string,
+  dialect: DriverName = "postgres"
+): RiskFinding[] {
+  const created = new Set<string>();
+  return splitStatements(sql, dialect).flatMap((statement) =>
+    analyzeStatement(statement, created, dialect)
+  );
+}
@@ -0,0 +1,91 @@
+import { config } from "~/config.server";
+
+// A weekly maintenance window: day of week (0 = Sunday, null = every day),
+// start as minutes after midnight, and length in minutes. Windows may run
+// past midnight (e.g. Sat 23:00-01:00).
+export interface MaintenanceWindow {
+  day: number | null;
+  start: number;
+  minutes: number;
+  label: string;
+}
+
+const DAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Parse "HH:MM" into minutes after midnight
+function parseTime(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+// Parse MAINTENANCE_WINDOWS ("Sun 02:00-04:00, daily 23:30-00:30")
+export function parseWindows(spec: string): MaintenanceWindow[] {
+  return spec
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = entry.match(
+        /^(\w+)\s+(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/
+      );
+      const dayName = match?.[1].toLowerCase().slice(0, 3);
+      const day =
+        dayName === "dai" ? null : dayName ? DAYS.indexOf(dayName) : -1;
+      const start = match ? parseTime(match[2]) : null;
+      const end = match ? parseTime(match[3]) : null;
+      if (day === -1 || start === null || end === null || start === end) {
+        throw new Error(
+          `Invalid maintenance window "${entry}" (use e.g. Sun 02:00-04:00)`
+        );
+      }
+      return {
+        day,
+        start,
+        minutes: end > start ? end - start : end + 24 * 60 - start,
+        label: entry,
+      };
+    });
+}
+
+// The configured windows; a bad setting is reported and treated as none
+export function maintenanceWindows(): MaintenanceWindow[] {
+  try {
+    return parseWindows(config.maintenanceWindows);
+  } catch (error) {
+    console.error("Error parsing MAINTENANCE_WINDOWS:", error);
+    return [];
+  }
+}
+
+// The window that is open at `from` or opens next: when a scheduled run may
+// start, and when it must have started by
+export function nextWindow(
+  windows: MaintenanceWindow[],
+  from = new Date()
+): { start: Date; end: Date; label: string } | null {
+  let best: { start: Date; end: Date; label: string } | null = null;
+
+  // Yesterday's windows can still be open past midnight
+  for (let offset = -1; offset <= 7; offset++) {
+    const day = new Date(from);
+    day.setHours(0, 0, 0, 0);
+    day.setDate(day.getDate() + offset);
+
+    for (const window of windows) {
+      if (window.day !== null && window.day !== day.getDay()) continue;
+      const start = new Date(day);
+      start.setMinutes(window.start);
+      const end = new Date(start.getTime() + window.minutes * 60 * 1000);
+      if (end <= from) continue;
+      const opens = start < from ? from : start;
+      if (!best || opens < best.start) {
+        best = { start: opens, end, label: window.label };
+      }
+    }
+  }
+  return best;
+}
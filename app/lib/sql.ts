@@ -0,0 +1,936 @@
+/**
+ * SQL tokenizer and statement splitter
+ *
+ * Understands the lexical rules that matter for splitting a script into
+ * statements. PostgreSQL (the default): single-quoted strings (including E''
+ * escapes), quoted identifiers, dollar-quoted bodies, line comments and
+ * nested block comments. MySQL: strings in single or double quotes with
+ * backslash escapes, backtick identifiers and # comments. SQLite: quoted,
+ * backtick and [bracketed] identifiers.
+ * Shared by the server (execution) and the UI (labels), so it has no
+ * server-only imports.
+ */
+
+import type { DriverName, StatementKind } from "./types";
+
+export type TokenType =
+  | "word"
+  | "quoted_identifier"
+  | "string"
+  | "dollar_string"
+  | "number"
+  | "parameter"
+  | "operator"
+  | "punctuation"
+  | "comment"
+  | "whitespace";
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  start: number; // Offset of the first character in the source
+  end: number; // Offset just past the last character
+}
+
+export interface SQLStatement {
+  index: number; // 0-based position in the script
+  text: string; // Statement text without the trailing semicolon
+  start: number; // Offset of the statement in the script
+  end: number;
+  line: number; // 1-based line the statement starts on
+}
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uffff]/;
+const DIGIT = /[0-9]/;
+const OPERATOR_CHARS = "+-*/<>=~!@#%^&|`?:";
+
+// Split SQL source into tokens, following the rules of the given engine.
+// Never throws: unterminated strings and comments simply run to the end of
+// the input.
+export function tokenize(
+  sql: string,
+  dialect: DriverName = "postgres"
+): Token[] {
+  const tokens: Token[] = [];
+  const length = sql.length;
+  const postgres = dialect === "postgres";
+  const mysql = dialect === "mysql";
+  let i = 0;
+
+  const push = (type: TokenType, start: number, end: number) => {
+    tokens.push({ type, text: sql.slice(start, end), start, end });
+  };
+
+  // Whether a line comment starts at offset j. In MySQL "--" needs a space
+  // after it (a--1 is a minus -1), and # starts a comment too.
+  const lineComment = (j: number) =>
+    (sql[j] === "-" &&
+      sql[j + 1] === "-" &&
+      (!mysql || j + 2 >= length || /\s/.test(sql[j + 2]))) ||
+    (mysql && sql[j] === "#");
+
+  while (i < length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+    const start = i;
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      while (i < length && /\s/.test(sql[i])) i++;
+      push("whitespace", start, i);
+      continue;
+    }
+
+    // Line comment
+    if (lineComment(i)) {
+      while (i < length && sql[i] !== "\n") i++;
+      push("comment", start, i);
+      continue;
+    }
+
+    // Block comment (PostgreSQL allows nesting)
+    if (ch === "/" && next === "*") {
+      let depth = 1;
+      i += 2;
+      while (i < length && depth > 0) {
+        if (postgres && sql[i] === "/" && sql[i + 1] === "*") {
+          depth++;
+          i += 2;
+        } else if (sql[i] === "*" && sql[i + 1] === "/") {
+          depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      }
+      push("comment", start, i);
+      continue;
+    }
+
+    // String literal. Postgres takes backslash escapes after an E prefix,
+    // MySQL in every string (which it also quotes with ")
+    const prefixed = postgres && (ch === "E" || ch === "e") && next === "'";
+    if (ch === "'" || (mysql && ch === '"') || prefixed) {
+      const quote = prefixed ? "'" : ch;
+      const escapes = prefixed || mysql;
+      i += prefixed ? 2 : 1;
+      while (i < length) {
+        if (escapes && sql[i] === "\\") {
+          i += 2;
+        } else if (sql[i] === quote && sql[i + 1] === quote) {
+          i += 2;
+        } else if (sql[i] === quote) {
+          i++;
+          break;
+        } else {
+          i++;
+        }
+      }
+      push("string", start, i);
+      continue;
+    }
+
+    // Quoted identifier: "name", `name` in MySQL and SQLite, [name] in SQLite
+    if (
+      (ch === '"' && !mysql) ||
+      (ch === "`" && !postgres) ||
+      (ch === "[" && dialect === "sqlite")
+    ) {
+      const close = ch === "[" ? "]" : ch;
+      i++;
+      while (i < length) {
+        if (close !== "]" && sql[i] === close && sql[i + 1] === close) {
+          i += 2;
+        } else if (sql[i] === close) {
+          i++;
+          break;
+        } else {
+          i++;
+        }
+      }
+      push("quoted_identifier", start, i);
+      continue;
+    }
+
+    if (ch === "$") {
+      // Positional parameter: $1, $2, ...
+      if (next && DIGIT.test(next)) {
+        i++;
+        while (i < length && DIGIT.test(sql[i])) i++;
+        push("parameter", start, i);
+        continue;
+      }
+
+      // Dollar quote: $$ ... $$ or $tag$ ... $tag$ (Postgres only)
+      const tagMatch =
+        postgres && sql.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/);
+      if (tagMatch) {
+        const tag = tagMatch[0];
+        const close = sql.indexOf(tag, i + tag.length);
+        i = close === -1 ? length : close + tag.length;
+        push("dollar_string", start, i);
+        continue;
+      }
+    }
+
+    // Words (keywords and identifiers)
+    if (WORD_START.test(ch)) {
+      while (i < length && WORD_PART.test(sql[i])) i++;
+      push("word", start, i);
+      continue;
+    }
+
+    // Numbers
+    if (DIGIT.test(ch) || (ch === "." && next && DIGIT.test(next))) {
+      while (i < length && /[0-9._eE]/.test(sql[i])) i++;
+      push("number", start, i);
+      continue;
+    }
+
+    // Operators (runs of operator characters, e.g. "::" or "<>")
+    if (OPERATOR_CHARS.includes(ch)) {
+      while (
+        i < length &&
+        OPERATOR_CHARS.includes(sql[i]) &&
+        !lineComment(i) &&
+        !(sql[i] === "/" && sql[i + 1] === "*")
+      ) {
+        i++;
+      }
+      push("operator", start, i);
+      continue;
+    }
+
+    // Everything else: ; , ( ) [ ] . and stray characters
+    i++;
+    push("punctuation", start, i);
+  }
+
+  return tokens;
+}
+
+// Whether a token carries meaning (not whitespace or a comment)
+export function isSignificant(token: Token): boolean {
+  return token.type !== "whitespace" && token.type !== "comment";
+}
+
+// Split a script into statements on top-level semicolons.
+// Statements that contain only comments or whitespace are dropped.
+export function splitStatements(
+  sql: string,
+  dialect: DriverName = "postgres"
+): SQLStatement[] {
+  const tokens = tokenize(sql, dialect);
+  const statements: SQLStatement[] = [];
+  let current: Token[] = [];
+  // Depth of BEGIN ATOMIC ... END bodies (SQL-standard function bodies),
+  // whose inner semicolons don't end the statement
+  let atomicDepth = 0;
+  let previousWord = "";
+
+  const flush = () => {
+    const significant = current.filter(isSignificant);
+    if (significant.length > 0) {
+      const start = significant[0].start;
+      const end = significant[significant.length - 1].end;
+      statements.push({
+        index: statements.length,
+        text: sql.slice(start, end),
+        start,
+        end,
+        line: lineAt(sql, start),
+      });
+    }
+    current = [];
+  };
+
+  for (const token of tokens) {
+    if (token.type === "word") {
+      const word = token.text.toUpperCase();
+      if (word === "ATOMIC" && previousWord === "BEGIN") {
+        atomicDepth++;
+      } else if (atomicDepth > 0 && word === "CASE") {
+        atomicDepth++;
+      } else if (atomicDepth > 0 && word === "END") {
+        atomicDepth--;
+      }
+      previousWord = word;
+    }
+
+    if (
+      token.type === "punctuation" &&
+      token.text === ";" &&
+      atomicDepth === 0
+    ) {
+      flush();
+      continue;
+    }
+    current.push(token);
+  }
+  flush();
+
+  return statements;
+}
+
+// Name of a quoted identifier token ("name", `name` or [name]) without its
+// quotes
+export function unquoteIdentifier(text: string): string {
+  const quote = text[0];
+  const name = text.slice(1, -1);
+  return quote === "[" ? name : name.split(quote + quote).join(quote);
+}
+
+// First `count` keywords of a statement, upper-cased
+export function leadingKeywords(
+  statement: string,
+  count = 3,
+  dialect: DriverName = "postgres"
+): string[] {
+  return tokenize(statement, dialect)
+    .filter(isSignificant)
+    .slice(0, count)
+    .map((t) => (t.type === "word" ? t.text.toUpperCase() : t.text));
+}
+
+// Statements that end or manage the surrounding transaction
+export function isTransactionControl(
+  statement: string,
+  dialect: DriverName = "postgres"
+): boolean {
+  const [first, second] = leadingKeywords(statement, 2, dialect);
+  if (
+    [
+      "BEGIN",
+      "COMMIT",
+      "ROLLBACK",
+      "END",
+      "ABORT",
+      "SAVEPOINT",
+      "RELEASE",
+    ].includes(first)
+  ) {
+    return true;
+  }
+  return (
+    (first === "START" && second === "TRANSACTION") ||
+    (first === "PREPARE" && second === "TRANSACTION")
+  );
+}
+
+// Kind labels shown in the UI
+export const STATEMENT_KINDS: Record<StatementKind, string> = {
+  query: "Query",
+  dml: "DML",
+  ddl: "DDL",
+  transaction: "Transaction",
+  utility: "Utility",
+};
+
+const QUERY_VERBS = ["SELECT", "VALUES", "TABLE", "SHOW", "FETCH"];
+const DML_VERBS = ["INSERT", "UPDATE", "DELETE", "MERGE"];
+const DDL_VERBS = [
+  "CREATE",
+  "ALTER",
+  "DROP",
+  "TRUNCATE",
+  "COMMENT",
+  "GRANT",
+  "REVOKE",
+  "SECURITY",
+  "IMPORT",
+];
+
+// Classify a statement by its top-level keywords:
+//   query       - SELECT, VALUES, TABLE, SHOW, FETCH (and WITH ... SELECT)
+//   dml         - INSERT, UPDATE, DELETE, MERGE, and queries whose WITH
+//                 clause modifies data
+//   ddl         - CREATE, ALTER, DROP, TRUNCATE, COMMENT, GRANT, REVOKE, and
+//                 SELECT ... INTO (which creates a table)
+//   transaction - BEGIN, COMMIT, SAVEPOINT, ...
+//   utility     - everything else (SET, VACUUM, DO, CALL, EXPLAIN, ...)
+// returnsRows: the statement produces a result set worth capturing - queries,
+// DML with RETURNING and EXPLAIN.
+export function classifyStatement(
+  statement: string,
+  dialect: DriverName = "postgres"
+): {
+  kind: StatementKind;
+  returnsRows: boolean;
+} {
+  if (isTransactionControl(statement, dialect)) {
+    return { kind: "transaction", returnsRows: false };
+  }
+
+  // Keywords at parenthesis depth 0, and whether a nested statement (e.g. a
+  // WITH clause) writes
+  const top: string[] = [];
+  let depth = 0;
+  let previous = "";
+  let nestedWrite = false;
+  for (const token of tokenize(statement, dialect).filter(isSignificant)) {
+    const word = token.type === "word" ? token.text.toUpperCase() : "";
+    if (token.text === "(") depth++;
+    else if (token.text === ")") depth--;
+    else if (depth === 0) top.push(word || token.text);
+    else if (previous === "(" && DML_VERBS.includes(word)) nestedWrite = true;
+    previous = word || token.text;
+  }
+
+  // A parenthesized query, or the statement after its WITH clause
+  let verb =
+    leadingKeywords(statement, 1, dialect)[0] === "(" ? "SELECT" : top[0];
+  if (verb === "WITH") {
+    verb =
+      top.find((word) => [...QUERY_VERBS, ...DML_VERBS].includes(word)) ??
+      "SELECT";
+  }
+
+  if (DML_VERBS.includes(verb)) {
+    return { kind: "dml", returnsRows: top.includes("RETURNING") };
+  }
+  if (QUERY_VERBS.includes(verb)) {
+    if (verb === "SELECT" && top.includes("INTO")) {
+      return { kind: "ddl", returnsRows: false };
+    }
+    return { kind: nestedWrite ? "dml" : "query", returnsRows: true };
+  }
+  if (DDL_VERBS.includes(verb)) {
+    return { kind: "ddl", returnsRows: false };
+  }
+  return { kind: "utility", returnsRows: verb === "EXPLAIN" };
+}
+
+// Statements PostgreSQL refuses to run inside a transaction block
+export function requiresAutocommit(statement: string): boolean {
+  const keywords = tokenize(statement)
+    .filter((t) => t.type === "word")
+    .map((t) => t.text.toUpperCase());
+  const [first, second] = keywords;
+
+  if (first === "VACUUM") return true;
+  if (
+    keywords.includes("CONCURRENTLY") &&
+    ["CREATE", "DROP", "REINDEX"].includes(first)
+  ) {
+    return true;
+  }
+  if (
+    (first === "CREATE" || first === "DROP") &&
+    (second === "DATABASE" || second === "TABLESPACE")
+  ) {
+    return true;
+  }
+  return first === "ALTER" && second === "SYSTEM";
+}
+
+// SET ROLE / RESET ROLE / SET SESSION AUTHORIZATION (also SET LOCAL ...),
+// RESET ALL / DISCARD ALL, and set_config('role' | 'session_authorization')
+// anywhere in the statement
+export function changesRole(statement: string): boolean {
+  if (
+    /^(SET|RESET)( LOCAL| SESSION)? (ROLE|SESSION AUTHORIZATION)\b|^(RESET|DISCARD) ALL\b/.test(
+      leadingKeywords(statement, 4).join(" ")
+    )
+  ) {
+    return true;
+  }
+  const tokens = tokenize(statement).filter(isSignificant);
+  return tokens.some(
+    (token, i) =>
+      token.type === "word" &&
+      token.text.toLowerCase() === "set_config" &&
+      tokens[i + 1]?.text === "(" &&
+      tokens[i + 2]?.type === "string" &&
+      ["'role'", "'session_authorization'"].includes(
+        tokens[i + 2].text.replace(/^e/i, "").toLowerCase()
+      )
+  );
+}
+
+// Queries that can't change data: SELECT, VALUES, TABLE, SHOW and WITH
+// without INSERT/UPDATE/DELETE/MERGE, SELECT ... INTO or row locks. Errs on
+// the side of "no" - functions called by a query aren't inspected.
+export function isReadOnlyStatement(statement: string): boolean {
+  const words = tokenize(statement)
+    .filter((t) => t.type === "word")
+    .map((t) => t.text.toUpperCase());
+  if (classifyStatement(statement).kind !== "query") return false;
+  return !words.some((word) =>
+    [
+      "INSERT",
+      "UPDATE",
+      "DELETE",
+      "MERGE",
+      "INTO",
+      "SHARE",
+      "TRUNCATE",
+    ].includes(word)
+  );
+}
+
+// Statements EXPLAIN accepts (queries, DML, and CREATE TABLE ... AS)
+export function isExplainable(statement: string): boolean {
+  const tokens = tokenize(statement).filter(isSignificant);
+  const words = tokens.map((t) =>
+    t.type === "word" ? t.text.toUpperCase() : t.text
+  );
+  if (
+    [
+      "SELECT",
+      "INSERT",
+      "UPDATE",
+      "DELETE",
+      "MERGE",
+      "VALUES",
+      "WITH",
+      "TABLE",
+      "EXECUTE",
+    ].includes(words[0])
+  ) {
+    return true;
+  }
+  if (words[0] !== "CREATE") return false;
+
+  // CREATE [TEMP | UNLOGGED] TABLE name AS / CREATE MATERIALIZED VIEW name AS:
+  // the AS has to come before any column list
+  const objectAt = words.findIndex((w) => w === "TABLE" || w === "VIEW");
+  if (
+    objectAt === -1 ||
+    (words[objectAt] === "VIEW" && words[objectAt - 1] !== "MATERIALIZED")
+  ) {
+    return false;
+  }
+  for (const word of words.slice(objectAt + 1)) {
+    if (word === "(") return false;
+    if (word === "AS") return true;
+  }
+  return false;
+}
+
+// Named placeholders (:name) outside strings and comments. "::" casts are
+// not placeholders; start points at the colon.
+export function namedPlaceholders(
+  sql: string,
+  dialect: DriverName = "postgres"
+): { name: string; start: number; end: number }[] {
+  const tokens = tokenize(sql, dialect);
+  const placeholders: { name: string; start: number; end: number }[] = [];
+
+  tokens.forEach((token, i) => {
+    const next = tokens[i + 1];
+    if (
+      token.type === "operator" &&
+      token.text.endsWith(":") &&
+      !token.text.endsWith("::") &&
+      next?.type === "word" &&
+      next.start === token.end
+    ) {
+      placeholders.push({
+        name: next.text.toLowerCase(),
+        start: token.end - 1,
+        end: next.end,
+      });
+    }
+  });
+  return placeholders;
+}
+
+// Replace named placeholders; names the callback returns undefined for are
+// left as they are
+export function replacePlaceholders(
+  sql: string,
+  replace: (name: string) => string | undefined,
+  dialect: DriverName = "postgres"
+): string {
+  let result = sql;
+  for (const placeholder of namedPlaceholders(sql, dialect).reverse()) {
+    const value = replace(placeholder.name);
+    if (value !== undefined) {
+      result =
+        result.slice(0, placeholder.start) +
+        value +
+        result.slice(placeholder.end);
+    }
+  }
+  return result;
+}
+
+// How to capture the rows an UPDATE or DELETE is about to change
+export interface BeforeImageQuery {
+  command: "UPDATE" | "DELETE";
+  table: string; // Target table as written in the statement
+  query?: string; // SELECT returning to_jsonb() of each matching row
+  error?: string; // Why the rows can't be captured
+}
+
+// Build the SELECT that returns the rows an UPDATE/DELETE will touch, using
+// the statement's own WITH clause, target, FROM/USING list and WHERE clause.
+// Returns null for other statements.
+export function beforeImageQuery(statement: string): BeforeImageQuery | null {
+  let tokens = tokenize(statement).filter(isSignificant);
+  const keyword = (i: number) =>
+    tokens[i]?.type === "word" ? tokens[i].text.toUpperCase() : undefined;
+
+  // WITH ...: the SELECT keeps the same CTEs, unless one of them writes
+  let prefix = "";
+  if (keyword(0) === "WITH") {
+    let depth = 0;
+    let nestedWrite = false;
+    let start = tokens.length;
+    for (let i = 1; i < tokens.length; i++) {
+      if (tokens[i].text === "(") depth++;
+      else if (tokens[i].text === ")") depth--;
+      else if (depth === 0 && ["UPDATE", "DELETE"].includes(keyword(i)!)) {
+        start = i;
+        break;
+      } else if (
+        depth === 0 &&
+        [...QUERY_VERBS, ...DML_VERBS].includes(keyword(i)!)
+      ) {
+        return null;
+      } else if (
+        tokens[i - 1].text === "(" &&
+        DML_VERBS.includes(keyword(i)!)
+      ) {
+        nestedWrite = true;
+      }
+    }
+    if (start === tokens.length) return null;
+    if (nestedWrite) {
+      return {
+        command: keyword(start) as "UPDATE" | "DELETE",
+        table: "",
+        error: "A WITH clause that modifies data can't be captured",
+      };
+    }
+    prefix = statement.slice(0, tokens[start - 1].end) + " ";
+    tokens = tokens.slice(start);
+  }
+
+  const command = keyword(0);
+  if (command !== "UPDATE" && command !== "DELETE") return null;
+
+  // Clause keywords outside parentheses
+  const clauses: { [word: string]: number } = {};
+  let depth = 0;
+  tokens.forEach((token, i) => {
+    if (token.text === "(") depth++;
+    else if (token.text === ")") depth--;
+    const word = keyword(i);
+    if (
+      depth === 0 &&
+      word &&
+      ["SET", "FROM", "USING", "WHERE", "RETURNING"].includes(word) &&
+      clauses[word] === undefined &&
+      // DELETE FROM is part of the target, not a FROM list
+      !(word === "FROM" && i === 1)
+    ) {
+      clauses[word] = i;
+    }
+  });
+
+  const text = (from: number, to: number) =>
+    from < to ? statement.slice(tokens[from].start, tokens[to - 1].end) : "";
+  const end = (...candidates: (number | undefined)[]) =>
+    Math.min(
+      ...candidates.filter((c): c is number => c !== undefined),
+      tokens.length
+    );
+
+  let targetStart: number;
+  let targetEnd: number;
+  let extraList = "";
+  if (command === "UPDATE") {
+    if (clauses.SET === undefined) {
+      return { command, table: "", error: "Could not find the SET clause" };
+    }
+    targetStart = 1;
+    targetEnd = clauses.SET;
+    if (clauses.FROM !== undefined) {
+      extraList = text(clauses.FROM + 1, end(clauses.WHERE, clauses.RETURNING));
+    }
+  } else {
+    if (keyword(1) !== "FROM") {
+      return { command, table: "", error: "Could not find DELETE FROM" };
+    }
+    targetStart = 2;
+    targetEnd = end(clauses.USING, clauses.WHERE, clauses.RETURNING);
+    if (clauses.USING !== undefined) {
+      extraList = text(
+        clauses.USING + 1,
+        end(clauses.WHERE, clauses.RETURNING)
+      );
+    }
+  }
+
+  // Target: [ONLY] name [*] [[AS] alias]
+  let i = targetStart;
+  if (keyword(i) === "ONLY") i++;
+  const nameStart = i;
+  const isIdentifier = (t?: Token) =>
+    t?.type === "word" || t?.type === "quoted_identifier";
+  if (!isIdentifier(tokens[i])) {
+    return { command, table: "", error: "Could not find the target table" };
+  }
+  i++;
+  while (tokens[i]?.text === "." && isIdentifier(tokens[i + 1])) i += 2;
+  const table = text(nameStart, i);
+  if (tokens[i]?.text === "*") i++;
+  if (keyword(i) === "AS") i++;
+  const reference =
+    i < targetEnd && isIdentifier(tokens[i]) ? tokens[i].text : table;
+
+  let condition = "";
+  if (clauses.WHERE !== undefined) {
+    if (
+      keyword(clauses.WHERE + 1) === "CURRENT" &&
+      keyword(clauses.WHERE + 2) === "OF"
+    ) {
+      return { command, table, error: "WHERE CURRENT OF can't be captured" };
+    }
+    condition = text(clauses.WHERE + 1, end(clauses.RETURNING));
+  }
+
+  return {
+    command,
+    table,
+    query:
+      prefix +
+      `SELECT to_jsonb(${reference}.*) AS before_image` +
+      ` FROM ${text(targetStart, targetEnd)}` +
+      (extraList ? `, ${extraList}` : "") +
+      (condition ? ` WHERE ${condition}` : ""),
+  };
+}
+
+export interface TableReference {
+  name: string; // Possibly schema-qualified; unquoted parts lowercased
+  changed: boolean; // The script's DDL creates, alters or drops it
+}
+
+// Words after FROM, UPDATE, ... that don't name a table (FOR UPDATE OF,
+// ON CONFLICT DO UPDATE SET, ON UPDATE CASCADE, GRANT UPDATE ON)
+const NOT_TABLE_NAMES = new Set([
+  "cascade",
+  "default",
+  "lateral",
+  "no",
+  "nowait",
+  "of",
+  "on",
+  "restrict",
+  "select",
+  "set",
+  "skip",
+  "values",
+]);
+
+// Keywords that end an item of a FROM list rather than alias it
+const CLAUSE_KEYWORDS = new Set([
+  "CROSS",
+  "EXCEPT",
+  "FETCH",
+  "FOR",
+  "FULL",
+  "GROUP",
+  "HAVING",
+  "INNER",
+  "INTERSECT",
+  "JOIN",
+  "LEFT",
+  "LIMIT",
+  "NATURAL",
+  "OFFSET",
+  "ON",
+  "ORDER",
+  "RETURNING",
+  "RIGHT",
+  "SELECT",
+  "SET",
+  "TABLESAMPLE",
+  "UNION",
+  "USING",
+  "WHERE",
+  "WINDOW",
+]);
+
+// Keywords that end a FROM list
+const FROM_LIST_END = new Set([
+  "CONFLICT",
+  "DO",
+  "EXCEPT",
+  "FETCH",
+  "FOR",
+  "GROUP",
+  "HAVING",
+  "INTERSECT",
+  "LIMIT",
+  "OFFSET",
+  "ORDER",
+  "RETURNING",
+  "SELECT",
+  "SET",
+  "UNION",
+  "WHEN",
+  "WHERE",
+  "WINDOW",
+]);
+
+// Tables a script reads or changes: the names after FROM, JOIN, UPDATE,
+// INTO, USING, TABLE, TRUNCATE, REFERENCES and CREATE INDEX ... ON. CTE
+// names and set-returning functions (FROM generate_series(...)) are left
+// out. A best-effort scan: names that turn out not to be tables are
+// harmless to whoever looks them up.
+export function referencedTables(
+  sql: string,
+  dialect: DriverName = "postgres"
+): TableReference[] {
+  const tables = new Map<string, TableReference>();
+
+  for (const statement of splitStatements(sql, dialect)) {
+    const tokens = tokenize(statement.text, dialect).filter(isSignificant);
+    const keyword = (i: number) =>
+      tokens[i]?.type === "word" ? tokens[i].text.toUpperCase() : "";
+    const isIdentifier = (i: number) =>
+      tokens[i]?.type === "word" || tokens[i]?.type === "quoted_identifier";
+    const first = keyword(0);
+    const ddl = ["CREATE", "ALTER", "DROP"].includes(first);
+    const createsIndex =
+      first === "CREATE" &&
+      (keyword(1) === "INDEX" ||
+        (keyword(1) === "UNIQUE" && keyword(2) === "INDEX"));
+
+    // A possibly schema-qualified name starting at tokens[i]
+    const readName = (i: number): { name: string; next: number } => {
+      const parts: string[] = [];
+      while (isIdentifier(i)) {
+        const { type, text } = tokens[i];
+        parts.push(
+          type === "word" ? text.toLowerCase() : unquoteIdentifier(text)
+        );
+        if (tokens[i + 1]?.text !== "." || !isIdentifier(i + 2)) {
+          i++;
+          break;
+        }
+        i += 2;
+      }
+      return { name: parts.join("."), next: i };
+    };
+
+    // CTEs: name [(columns)] AS [[NOT] MATERIALIZED] ( after WITH or a comma
+    const ctes = new Set<string>();
+    tokens.forEach((token, i) => {
+      const before = keyword(i - 1);
+      if (
+        !isIdentifier(i) ||
+        !(
+          before === "WITH" ||
+          before === "RECURSIVE" ||
+          tokens[i - 1]?.text === ","
+        )
+      ) {
+        return;
+      }
+      let j = i + 1;
+      if (tokens[j]?.text === "(") {
+        while (j < tokens.length && tokens[j].text !== ")") j++;
+        j++;
+      }
+      if (keyword(j) !== "AS") return;
+      j++;
+      if (keyword(j) === "NOT") j++;
+      if (keyword(j) === "MATERIALIZED") j++;
+      if (tokens[j]?.text === "(") ctes.add(readName(i).name);
+    });
+
+    // Bracket depths with an open FROM list: a comma there, e.g. after a
+    // JOIN's ON or USING clause, starts another item of the list
+    let depth = 0;
+    let fromLists: number[] = [];
+    let i = 0;
+    while (i < tokens.length) {
+      const word = keyword(i);
+      const text = tokens[i].text;
+      i++;
+      if (text === "(" || text === "[") {
+        depth++;
+      } else if (text === ")" || text === "]") {
+        fromLists = fromLists.filter((open) => open < depth);
+        depth--;
+      } else if (FROM_LIST_END.has(word)) {
+        fromLists = fromLists.filter((open) => open < depth);
+      }
+
+      // Which names follow: one, or a comma-separated list (with aliases);
+      // where a name followed by ( is a function call rather than a table
+      let list = false;
+      let callable = false;
+      let changed = false;
+      if (word === "FROM" || (word === "USING" && tokens[i]?.text !== "(")) {
+        list = true;
+        callable = true;
+        if (word === "FROM") fromLists.push(depth);
+      } else if (text === "," && fromLists[fromLists.length - 1] === depth) {
+        list = true;
+        callable = true;
+      } else if (word === "JOIN") {
+        callable = true;
+      } else if (word === "TABLE" || word === "TRUNCATE") {
+        list = true;
+        changed = ddl && word === "TABLE";
+      } else if (word === "ON" && createsIndex) {
+        changed = true;
+      } else if (!["UPDATE", "INTO", "REFERENCES"].includes(word)) {
+        continue;
+      }
+
+      for (;;) {
+        while (["IF", "NOT", "EXISTS", "ONLY", "TABLE"].includes(keyword(i))) {
+          i++;
+        }
+        if (!isIdentifier(i)) break;
+        const { name, next } = readName(i);
+        i = next;
+        if (callable && tokens[i]?.text === "(") break;
+        if (!NOT_TABLE_NAMES.has(name) && !ctes.has(name)) {
+          const existing = tables.get(name);
+          tables.set(name, {
+            name,
+            changed: changed || existing?.changed === true,
+          });
+        }
+        if (!list) break;
+
+        // [*] [[AS] alias] before the next item
+        if (tokens[i]?.text === "*") i++;
+        if (keyword(i) === "AS") i++;
+        if (isIdentifier(i) && !CLAUSE_KEYWORDS.has(keyword(i))) i++;
+        if (tokens[i]?.text !== ",") break;
+        i++;
+      }
+    }
+  }
+
+  return [...tables.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// 1-based line number of an offset
+export function lineAt(sql: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < sql.length; i++) {
+    if (sql[i] === "\n") line++;
+  }
+  return line;
+}
+
+// 1-based line and column of an offset
+export function positionAt(
+  sql: string,
+  offset: number
+): { line: number; column: number } {
+  const before = sql.slice(0, offset);
+  const line = before.split("\n").length;
+  const column = offset - before.lastIndexOf("\n");
+  return { line, column };
+}
@@ -0,0 +1,263 @@
+import Database from "better-sqlite3";
+import { userInfo } from "node:os";
+import type { DatabaseDriver, DriverConnection } from "./drivers.server";
+import { leadingKeywords } from "./sql";
+import type { TableSchema } from "./types";
+
+// Rows handed on per batch while streaming a result set
+const STREAM_BATCH_ROWS = 1000;
+
+// busy_timeout for "no limit" (0 would mean not waiting at all)
+const MAX_BUSY_TIMEOUT_MS = 2147483647;
+
+// File behind a connection string: sqlite:./demo.db, sqlite:///var/demo.db
+// or a bare path
+function databasePath(url: string): string {
+  return url.replace(/^sqlite:/i, "").replace(/^\/\//, "");
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+// A table by [schema.]name (main unless an attached database is named).
+// SQLite doesn't name primary keys and foreign keys, so their definitions
+// double as names.
+function describeTable(db: Database.Database, table: string): TableSchema {
+  const parts = table.split(".");
+  const name = parts.pop()!;
+  const schema = quote(parts.pop() ?? "main");
+  const found = db
+    .prepare(
+      `SELECT 1 FROM ${schema}.sqlite_master WHERE type IN ('table', 'view') AND name = ?`
+    )
+    .get(name);
+  if (!found) {
+    return { table, exists: false, columns: [], indexes: [], constraints: [] };
+  }
+
+  const columns = db.pragma(`${schema}.table_info(${quote(name)})`) as {
+    name: string;
+    type: string;
+    notnull: number;
+    dflt_value: string | null;
+    pk: number;
+  }[];
+  const indexes = (
+    db.pragma(`${schema}.index_list(${quote(name)})`) as {
+      name: string;
+      unique: number;
+    }[]
+  ).map((index) => {
+    const indexColumns = (
+      db.pragma(`${schema}.index_info(${quote(index.name)})`) as {
+        name: string | null;
+      }[]
+    ).map((column) => column.name ?? "(expression)");
+    return {
+      name: index.name,
+      definition: `${index.unique ? "UNIQUE " : ""}(${indexColumns.join(
+        ", "
+      )})`,
+    };
+  });
+
+  const constraints: TableSchema["constraints"] = [];
+  const primaryKey = columns
+    .filter((column) => column.pk > 0)
+    .sort((a, b) => a.pk - b.pk)
+    .map((column) => column.name);
+  if (primaryKey.length > 0) {
+    const definition = `PRIMARY KEY (${primaryKey.join(", ")})`;
+    constraints.push({ name: definition, definition });
+  }
+  const foreignKeys = new Map<
+    number,
+    { table: string; from: string[]; to: string[] }
+  >();
+  for (const key of db.pragma(`${schema}.foreign_key_list(${quote(name)})`) as {
+    id: number;
+    table: string;
+    from: string;
+    to: string | null;
+  }[]) {
+    const entry = foreignKeys.get(key.id) ?? {
+      table: key.table,
+      from: [],
+      to: [],
+    };
+    entry.from.push(key.from);
+    if (key.to) entry.to.push(key.to);
+    foreignKeys.set(key.id, entry);
+  }
+  for (const key of foreignKeys.values()) {
+    const definition = `FOREIGN KEY (${key.from.join(", ")}) REFERENCES ${
+      key.table
+    }${key.to.length > 0 ? ` (${key.to.join(", ")})` : ""}`;
+    constraints.push({ name: definition, definition });
+  }
+
+  return {
+    table,
+    exists: true,
+    columns: columns.map((column) => ({
+      name: column.name,
+      type: column.type,
+      nullable: column.notnull === 0,
+      default: column.dflt_value,
+    })),
+    indexes,
+    constraints,
+  };
+}
+
+function wrapDatabase(db: Database.Database): DriverConnection {
+  const command = (text: string) =>
+    leadingKeywords(text, 1, "sqlite")[0] || null;
+
+  return {
+    // better-sqlite3 runs statements synchronously, so there is nothing to
+    // interrupt; cancellation takes effect between statements
+    backendId: undefined,
+
+    // SQLite has no statement timeout; busy_timeout bounds lock waits
+    async configure(settings) {
+      const busyTimeout =
+        settings.lockTimeoutMs > 0
+          ? Math.trunc(settings.lockTimeoutMs)
+          : MAX_BUSY_TIMEOUT_MS;
+      db.pragma(`busy_timeout = ${busyTimeout}`);
+      if (settings.readOnly) db.pragma("query_only = ON");
+      if (settings.role) {
+        throw new Error("SQLite databases have no roles to run as");
+      }
+    },
+
+    async query(text, values = []) {
+      const statement = db.prepare(text);
+      if (!statement.reader) {
+        const info = statement.run(...values);
+        return {
+          command: command(text),
+          rowCount: info.changes,
+          columns: [],
+          rows: [],
+        };
+      }
+      const rows = statement.all(...values) as Record<string, any>[];
+      return {
+        command: command(text),
+        rowCount: rows.length,
+        columns: statement.columns().map((column) => column.name),
+        rows,
+      };
+    },
+
+    async stream(text, values, onColumns, onRows) {
+      const statement = db.prepare(text);
+      if (!statement.reader) {
+        const info = statement.run(...values);
+        return { command: command(text), rowCount: info.changes };
+      }
+      statement.raw(true);
+      await onColumns(statement.columns().map((column) => column.name));
+      let batch: any[][] = [];
+      let rowCount = 0;
+      for (const row of statement.iterate(...values) as Iterable<any[]>) {
+        batch.push(row);
+        rowCount++;
+        if (batch.length >= STREAM_BATCH_ROWS) {
+          await onRows(batch);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) await onRows(batch);
+      return { command: command(text), rowCount };
+    },
+
+    async begin(readOnly) {
+      if (readOnly) db.pragma("query_only = ON");
+      db.exec("BEGIN");
+    },
+
+    async commit() {
+      db.exec("COMMIT");
+    },
+
+    async rollback() {
+      if (db.inTransaction) db.exec("ROLLBACK");
+    },
+
+    // The "user" is whoever the app runs as: SQLite checks file permissions
+    async context() {
+      const databases = db.pragma("database_list") as { name: string }[];
+      return {
+        driver: "sqlite",
+        serverVersion: String(
+          db.prepare("SELECT sqlite_version()").pluck().get()
+        ),
+        database: db.name,
+        currentUser: userInfo().username,
+        searchPath: databases.map((database) => database.name).join(", "),
+      };
+    },
+
+    async describeTables(tables) {
+      return tables.map((table) => describeTable(db, table));
+    },
+
+    // SQLite sends no notices
+    onNotice() {
+      return () => {};
+    },
+
+    // Each execution has its own connection, so there is nothing to reset
+    async release() {
+      db.close();
+    },
+  };
+}
+
+// SQLite files for local demos. Each execution opens its own connection;
+// there are no roles, statement timeouts, JSON plans or before images, and
+// a running statement can't be cancelled.
+export function createSQLiteDriver(url: string): DatabaseDriver {
+  const path = databasePath(url);
+  const open = () => new Database(path, { fileMustExist: false });
+  return {
+    name: "sqlite",
+    features: {
+      transactionalDDL: true,
+      roles: false,
+      plans: false,
+      beforeImages: false,
+      placeholders: "anonymous",
+    },
+
+    async connect() {
+      return wrapDatabase(open());
+    },
+
+    async query(text, values = []) {
+      const connection = wrapDatabase(open());
+      try {
+        return await connection.query(text, values);
+      } finally {
+        await connection.release(false);
+      }
+    },
+
+    async cancel() {
+      return false;
+    },
+
+    timeoutKind(error) {
+      return error?.code === "SQLITE_BUSY" ? "lock" : null;
+    },
+
+    // query_only (read-only scripts) or a read-only file
+    isReadOnlyViolation(error) {
+      return error?.code === "SQLITE_READONLY";
+    },
+  };
+}
@@ -1,40 +1,407 @@
+// Database engines scripts can run against
+export type DriverName = "postgres" | "mysql" | "sqlite";
+
+// A configured target environment, as the UI sees it
+export interface EnvironmentInfo {
+  name: string; // Stored as target_database in the audit log
+  label: string;
+  driver: DriverName;
+  requires: string[]; // Must have run successfully in these first
+  protected: boolean; // Production-grade: highlighted in the UI
+  group: boolean; // Fans out to every member database of a target group
+}
+
 export interface ApprovedScript {
   id: number;
   script_name: string;
   script_content: string;
-  target_database: "staging" | "production";
+  target_database: string; // From -- TargetDatabase; defaults to the first environment
   github_pr_url: string | null;
   approvers: string[] | null;
   approved_at: Date;
-  staging_executed?: boolean;
-  staging_executed_at?: Date | null;
-  production_executed?: boolean;
-  production_executed_at?: Date | null;
-  direct_prod?: boolean;
+  executed_in?: Record<string, string>; // Environment -> last successful run
+  direct_prod?: boolean; // Bypasses environment promotion rules
+  repeatable?: boolean; // From -- Repeatable: may re-run where it succeeded
+  rollback_content?: string | null; // From a -- Rollback: section or foo.rollback.sql
+  risk_findings?: RiskFinding[] | null; // Static analysis when it was approved
+  rollback_risk_findings?: RiskFinding[] | null; // Same, for the rollback script
 }
 
+// Status recorded in sql_execution_log. Dry runs get their own statuses so
+// they never count as a real execution of the script.
+export type ExecutionStatus =
+  | "success"
+  | "error"
+  | "timeout" // Aborted by statement_timeout or lock_timeout
+  | "cancelled" // Cancelled or terminated from the UI
+  | "interrupted" // Server stopped while the execution was running
+  | "rows_mismatch" // Rolled back: rows affected outside -- ExpectedRows
+  | "assertion_failed" // Rolled back: an -- Assert before/after check failed
+  | "dry_run"
+  | "dry_run_error";
+
 export interface ExecutionLog {
   id: number;
   script_name: string;
   script_content: string;
   executed_by: string;
   executed_at: Date;
-  target_database: "staging" | "production";
-  status: "success" | "error";
+  target_database: string;
+  target_member?: string | null; // Target group member the run was against
+  status: ExecutionStatus;
   rows_affected: number | null;
   error_message: string | null;
   execution_time_ms: number | null;
   github_pr_url: string | null;
   approvers: string[] | null;
   result_data?: any[] | null;
+  statement_results?: StatementResult[] | null;
+  statement_timeout_ms?: number | null;
+  lock_timeout_ms?: number | null;
+  cancelled_by?: string | null;
+  cancelled_at?: Date | null;
+  query_plan?: QueryPlan | null;
+  expected_rows_min?: number | null;
+  expected_rows_max?: number | null;
+  batch_size?: number | null;
+  batch_count?: number | null;
+  reverts_execution_id?: number | null; // Forward execution this rollback undid
+  parameters?: ParamValues | null; // Values bound to -- Param placeholders
+  scheduled_for?: Date | null; // Scheduled runs: when it was due (executed_by scheduled it)
+  read_only?: boolean | null; // Ran in a READ ONLY transaction
+  read_replica?: boolean | null; // ... on the environment's read-only pool
+  run_as?: string | null; // Role the script ran as (-- RunAs)
+  notices?: ServerNotice[] | null; // NOTICE/WARNING messages from the server
+  execution_context?: ExecutionContext | null;
+  assertions?: AssertionResult[] | null; // -- Assert before/after outcomes
+  schema_snapshot?: TableSchema[] | null; // Referenced tables before the run
+  schema_drift?: DriftAcknowledgement | null; // Drift someone ran past
+}
+
+// What a statement does (see classifyStatement in lib/sql.ts)
+export type StatementKind = "query" | "dml" | "ddl" | "transaction" | "utility";
+
+// Outcome of a single statement within a multi-statement script
+export interface StatementResult {
+  index: number;
+  sql: string;
+  line: number; // 1-based line in the script where the statement starts
+  kind?: StatementKind; // Missing on entries logged before classification
+  status: "success" | "error" | "skipped";
+  command: string | null; // Command tag reported by Postgres (INSERT, UPDATE, ...)
+  rowCount: number | null;
+  executionTime: number | null;
+  rows?: any[];
+  error?: string;
+  errorPosition?: { line: number; column: number };
+  artifactId?: number; // Full result set stored in execution_artifacts
+  beforeImage?: BeforeImage;
+}
+
+// Rows an UPDATE/DELETE matched, captured just before it ran
+export interface BeforeImage {
+  table: string;
+  primaryKey: string[];
+  rowCount: number;
+  truncated?: boolean; // Capture stopped at the configured row limit
+  artifactId?: number;
+  rows?: any[]; // Preview
+  error?: string; // Why nothing was captured
+}
+
+// A non-error message the server sent while the script ran (RAISE NOTICE,
+// warnings such as "there is no transaction in progress")
+export interface ServerNotice {
+  severity: string; // NOTICE, WARNING, INFO, LOG or DEBUG
+  message: string;
+  statement: number | null; // Index of the running statement; null before the first
+  code?: string; // SQLSTATE
+  detail?: string;
+  hint?: string;
+  where?: string; // e.g. the PL/pgSQL line that raised it
+}
+
+// An -- Assert before/after check and its outcome. The query must return
+// true (first column of the first row) for the check to pass.
+export interface AssertionResult {
+  phase: "before" | "after";
+  sql: string;
+  passed: boolean | null; // null: not evaluated (an earlier step failed)
+  value?: unknown; // What the query returned
+  error?: string;
+}
+
+// Where and as whom an execution ran
+export interface ExecutionContext {
+  driver?: DriverName; // Missing on entries logged before drivers
+  serverVersion: string;
+  database: string;
+  currentUser: string; // After -- RunAs
+  searchPath: string;
+  appVersion: string; // Version of this app that ran the script
+}
+
+// A table the script references, as introspected on a target. Definitions
+// are in the driver's own terms (format_type, pg_get_indexdef, ...), so
+// snapshots only compare with snapshots from the same engine.
+export interface TableSchema {
+  table: string; // As the script names it
+  exists: boolean;
+  columns: {
+    name: string;
+    type: string;
+    nullable: boolean;
+    default: string | null;
+  }[];
+  indexes: { name: string; definition: string }[];
+  constraints: { name: string; definition: string }[];
+}
+
+// One way a table differs between two environments
+export interface SchemaDifference {
+  table: string;
+  kind: "table" | "column" | "index" | "constraint";
+  name: string;
+  reference: string | null; // Definition where the script already ran; null: missing
+  target: string | null; // Definition on the target; null: missing
+}
+
+// Schema of the tables a script references on the environment it already
+// ran on (captured before that run) compared with the target's
+export interface SchemaDrift {
+  reference: string; // Environment the script already ran on
+  target: string;
+  snapshotAt: Date | null; // When the reference schema was captured; null: compared live
+  tables: string[]; // Tables compared
+  skipped: string[]; // Live comparisons: tables the script's DDL changes
+  differences: SchemaDifference[];
+  error?: string; // The check itself failed
+}
+
+// Drift shown before a run, and who chose to run anyway
+export interface DriftAcknowledgement {
+  acknowledgedBy: string;
+  acknowledgedAt: Date;
+  drift: SchemaDrift[];
 }
 
 export interface ExecutionResult {
   success: boolean;
+  status: ExecutionStatus;
+  dryRun?: boolean;
   rowsAffected?: number;
   executionTime?: number;
   error?: string;
   resultRows?: any[];
+  statements?: StatementResult[];
+  transactional?: boolean; // Whether all statements ran in one transaction
+  timeouts?: { statement: number; lock: number }; // Applied timeouts (ms)
+  expectedRows?: { min: number; max: number }; // From -- ExpectedRows
+  batch?: { size: number; sleepMs: number; count: number }; // Batch mode
+  readOnly?: { replica: boolean }; // Ran in a READ ONLY transaction (-- ReadOnly)
+  runAs?: string; // Role from -- RunAs (SET ROLE)
+  notices?: ServerNotice[];
+  context?: ExecutionContext;
+  assertions?: AssertionResult[];
+  schemaSnapshot?: TableSchema[];
+  cancelledBy?: string;
+  cancelledAt?: Date;
+}
+
+// Types a -- Param declaration can use
+export type ParamType =
+  | "int"
+  | "bigint"
+  | "numeric"
+  | "text"
+  | "uuid"
+  | "boolean"
+  | "date"
+  | "timestamp"
+  | "jsonb";
+
+// A script input declared with -- Param: name type [required]
+export interface ScriptParam {
+  name: string; // Lowercase; referenced as :name or by position as $n
+  type: ParamType;
+  required: boolean;
+}
+
+// Parameter values of one execution, by name (null when left empty)
+export type ParamValues = Record<string, string | null>;
+
+// Patterns the static risk analyzer flags (see lib/risk.ts)
+export type RiskRule =
+  | "unbounded_write" // UPDATE/DELETE without WHERE
+  | "drop"
+  | "truncate"
+  | "exclusive_lock" // ALTER TABLE holding an ACCESS EXCLUSIVE lock
+  | "blocking_index"; // CREATE INDEX without CONCURRENTLY
+
+export type RiskSeverity = "warning" | "danger";
+
+// One flagged statement of a script
+export interface RiskFinding {
+  rule: RiskRule;
+  severity: RiskSeverity;
+  statement: number; // 0-based statement index
+  line: number; // Line the statement starts on
+  message: string;
+}
+
+// Live progress of a batched execution
+export interface ExecutionProgress {
+  batches: number; // Batches committed so far
+  rows: number; // Rows affected so far
+}
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled"
+  | "interrupted";
+
+// One member database of a target group job, as shown in the status matrix
+export interface JobMember {
+  name: string;
+  canary?: boolean; // Ran alone, before the other members
+  status:
+    | "pending"
+    | "running"
+    | "succeeded"
+    | "failed"
+    | "cancelled"
+    | "skipped";
+  execution_log_id?: number | null;
+  progress?: ExecutionProgress;
+  message?: string;
+}
+
+// Row in execution_jobs: an execution requested from the UI and picked up
+// by the background worker
+export interface ExecutionJob {
+  id: number;
+  script_id: number;
+  script_name: string;
+  target_database: string;
+  mode: "execute" | "dry_run" | "revert";
+  status: JobStatus;
+  requested_by: string;
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+  heartbeat_at: Date | null;
+  worker_id: string | null;
+  backend_pid: number | null;
+  backend_replica: boolean | null; // backend_pid is on the read-only pool
+  cancel_requested_by: string | null;
+  cancel_requested_at: Date | null;
+  terminate_requested: boolean | null; // Force terminate: end the backend connection
+  execution_log_id: number | null;
+  query_plan_id: number | null;
+  reverts_execution_id: number | null;
+  parameters: ParamValues | null;
+  schema_drift: DriftAcknowledgement | null;
+  progress: ExecutionProgress | null;
+  members: JobMember[] | null; // Target groups: per-member status
+  scheduled_for: Date | null; // Not picked up before this time
+  run_before: Date | null; // Maintenance window end: fails if not started by then
+  message: string | null;
+  error_message: string | null;
+}
+
+// Full result set of one statement, stored in chunks for download
+export interface ResultArtifact {
+  id: number;
+  execution_log_id: number | null;
+  statement_index: number;
+  kind: "result" | "before_image";
+  table_name: string | null; // Before images: the table the rows came from
+  primary_key: string[] | null;
+  command: string | null; // Before images: UPDATE or DELETE
+  columns: string[];
+  row_count: number;
+  complete: boolean;
+  truncated: boolean; // Before images: stopped at BEFORE_IMAGE_MAX_ROWS
+  created_at: Date;
+  script_name?: string | null;
+}
+
+// One side of a result comparison: a statement's rows from one execution
+export interface ComparedResult {
+  executionId: number;
+  target: string;
+  member: string | null;
+  executedAt: Date;
+  columns: string[];
+  rowCount: number; // As reported by the execution
+  loaded: number; // Rows compared (fewer when only a preview was stored)
+}
+
+// Keyed diff of what the same statement returned in two executions
+export interface ResultComparison {
+  statement: number;
+  left: ComparedResult;
+  right: ComparedResult;
+  rowDelta: number; // right.rowCount - left.rowCount
+  onlyLeft: string[]; // Columns present on one side only
+  onlyRight: string[];
+  key: string | null; // Column rows are matched on
+  complete: boolean; // Both sides' full results were compared
+  added: Record<string, unknown>[]; // Rows only on the right (capped)
+  removed: Record<string, unknown>[]; // Rows only on the left (capped)
+  changed: {
+    key: unknown;
+    columns: string[];
+    left: Record<string, unknown>;
+    right: Record<string, unknown>;
+  }[];
+  counts: { added: number; removed: number; changed: number; same: number };
+  duplicateKeys: number; // Rows whose key was already seen (not compared)
+}
+
+// A node of an EXPLAIN (FORMAT JSON) plan, as returned by Postgres
+export interface PlanNode {
+  "Node Type": string;
+  "Relation Name"?: string;
+  Alias?: string;
+  "Index Name"?: string;
+  "Join Type"?: string;
+  "Startup Cost": number;
+  "Total Cost": number;
+  "Plan Rows": number;
+  "Plan Width": number;
+  "Actual Rows"?: number;
+  "Actual Loops"?: number;
+  "Actual Total Time"?: number;
+  Plans?: PlanNode[];
+  [key: string]: any;
+}
+
+// Plan (or why there is none) for one statement of a script
+export interface StatementPlan {
+  index: number;
+  sql: string;
+  line: number;
+  status: "planned" | "executed" | "skipped" | "error";
+  plan?: PlanNode;
+  planningTime?: number; // ms
+  executionTime?: number; // ms, EXPLAIN ANALYZE only
+  note?: string;
+  error?: string;
+}
+
+export interface QueryPlan {
+  id: number;
+  script_id: number;
+  script_name: string;
+  target_database: string;
+  analyzed: boolean;
+  statements: StatementPlan[];
+  created_by: string;
+  created_at: Date;
 }
 
 export interface GitHubWebhookPayload {
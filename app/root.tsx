@@ -100,6 +100,16 @@ export default function App() {
                   >
                     Execution History
                   </a>
+                  <a
+                    href="/scheduled"
+                    className={`no-underline text-sm transition-all px-3 py-1.5 rounded ${
+                      location.pathname === "/scheduled"
+                        ? "text-primary-600 font-semibold bg-primary-50"
+                        : "text-primary-500 hover:text-primary-700 hover:bg-primary-50 font-normal"
+                    }`}
+                  >
+                    Scheduled
+                  </a>
                 </nav>
               </div>
               <div className="flex items-center gap-3">
@@ -24,42 +24,25 @@ import {
   Lightning,
 } from "phosphor-react";
 import { getApprovedScripts, getScriptExecutionHistory } from "~/lib/db.server";
-import type { ApprovedScript } from "~/lib/types";
+import { environmentInfo } from "~/config.server";
+import type { ApprovedScript, EnvironmentInfo } from "~/lib/types";
 import { getUserFromSession } from "~/lib/auth.server";
 import { getOpenPRsWithSQL } from "~/lib/github.server";
 import { ErrorBoundary } from "~/components/ErrorBoundary";
 
+type ScriptWithStats = ApprovedScript & {
+  executionCount: number;
+  lastExecution: any;
+  lastExecutedBy: string | null;
+  lastExecutedAt: Date | string | null;
+  hasErrors: boolean;
+  nextEnvironment: string | null; // First environment it hasn't run in yet
+};
+
 type LoaderData = {
-  pending: Array<
-    ApprovedScript & {
-      executionCount: number;
-      lastExecution: any;
-      lastExecutedBy: string | null;
-      lastExecutedAt: string | null;
-      hasErrors: boolean;
-      workflowState: "pending" | "ready" | "completed";
-    }
-  >;
-  readyForProd: Array<
-    ApprovedScript & {
-      executionCount: number;
-      lastExecution: any;
-      lastExecutedBy: string | null;
-      lastExecutedAt: string | null;
-      hasErrors: boolean;
-      workflowState: "pending" | "ready" | "completed";
-    }
-  >;
-  completed: Array<
-    ApprovedScript & {
-      executionCount: number;
-      lastExecution: any;
-      lastExecutedBy: string | null;
-      lastExecutedAt: string | null;
-      hasErrors: boolean;
-      workflowState: "pending" | "ready" | "completed";
-    }
-  >;
+  environments: EnvironmentInfo[];
+  // One column per environment (scripts ready for it), then completed (null)
+  columns: Array<{ environment: string | null; scripts: ScriptWithStats[] }>;
   openPRs: Array<{
     prNumber: number;
     title: string;
@@ -85,24 +68,20 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
   // Load scripts from database
   const scripts = await getApprovedScripts();
+  const environments = environmentInfo();
 
   // Get execution stats for each script
-  const scriptsWithStats = await Promise.all(
+  const scriptsWithStats: ScriptWithStats[] = await Promise.all(
     scripts.map(async (script) => {
       const history = await getScriptExecutionHistory(script.script_name);
-      const successfulExecutions = history.filter(
-        (e) => e.status === "success"
-      );
       const lastExecution = history[0] || null;
       const executionCount = history.length;
 
-      // Determine workflow state for sorting
-      let workflowState: "pending" | "ready" | "completed" = "pending";
-      if (script.production_executed) {
-        workflowState = "completed";
-      } else if (script.staging_executed) {
-        workflowState = "ready";
-      }
+      // The script waits on the first environment (in promotion order) it
+      // hasn't run in; none left means it is completed
+      const nextEnvironment =
+        environments.find((env) => !script.executed_in?.[env.name])?.name ??
+        null;
 
       return {
         ...script,
@@ -110,57 +89,37 @@ export async function loader({ request }: LoaderFunctionArgs) {
         lastExecution,
         lastExecutedBy: lastExecution?.executed_by || null,
         lastExecutedAt: lastExecution?.executed_at || null,
-        hasErrors: history.some((e) => e.status === "error"),
-        workflowState,
+        hasErrors: history.some(
+          (e) =>
+            e.status === "error" ||
+            e.status === "timeout" ||
+            e.status === "rows_mismatch" ||
+            e.status === "assertion_failed"
+        ),
+        nextEnvironment,
       };
     })
   );
 
-  // Sort scripts: pending first, then ready for prod, then completed
-  // Within each group, sort by most relevant timestamp (newest first)
-  scriptsWithStats.sort((a, b) => {
-    const stateOrder = { pending: 0, ready: 1, completed: 2 };
-    const stateDiff = stateOrder[a.workflowState] - stateOrder[b.workflowState];
-    if (stateDiff !== 0) return stateDiff;
-
-    // Within same state, sort by most relevant timestamp (newest first)
-    let aTime: number;
-    let bTime: number;
-
-    if (a.workflowState === "pending") {
-      // Pending: sort by approved_at (newest approved first)
-      aTime = new Date(a.approved_at).getTime();
-      bTime = new Date(b.approved_at).getTime();
-    } else if (a.workflowState === "ready") {
-      // Ready for prod: sort by staging_executed_at (newest staging execution first)
-      aTime = a.staging_executed_at
-        ? new Date(a.staging_executed_at).getTime()
-        : 0;
-      bTime = b.staging_executed_at
-        ? new Date(b.staging_executed_at).getTime()
-        : 0;
-    } else {
-      // Completed: sort by production_executed_at (newest production execution first)
-      aTime = a.production_executed_at
-        ? new Date(a.production_executed_at).getTime()
-        : 0;
-      bTime = b.production_executed_at
-        ? new Date(b.production_executed_at).getTime()
-        : 0;
-    }
-
-    return bTime - aTime; // Newest first
-  });
-
-  // Group scripts by workflow state
-  const pending: typeof scriptsWithStats = scriptsWithStats.filter(
-    (s) => s.workflowState === "pending"
-  );
-  const readyForProd: typeof scriptsWithStats = scriptsWithStats.filter(
-    (s) => s.workflowState === "ready"
-  );
-  const completed: typeof scriptsWithStats = scriptsWithStats.filter(
-    (s) => s.workflowState === "completed"
+  // Within each column, sort by most relevant timestamp (newest first): the
+  // latest environment run, or the approval for scripts not run anywhere yet
+  const sortTime = (script: ScriptWithStats) =>
+    Math.max(
+      new Date(script.approved_at).getTime(),
+      ...Object.values(script.executed_in || {}).map((at) =>
+        new Date(at).getTime()
+      )
+    );
+  scriptsWithStats.sort((a, b) => sortTime(b) - sortTime(a));
+
+  // Group scripts by the environment they are ready for
+  const columns = [...environments.map((env) => env.name), null].map(
+    (environment) => ({
+      environment,
+      scripts: scriptsWithStats.filter(
+        (script) => script.nextEnvironment === environment
+      ),
+    })
   );
 
   // Fetch open PRs with SQL files (for "In Review" column)
@@ -181,7 +140,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
   }
 
   return json(
-    { pending, readyForProd, completed, openPRs, user },
+    { environments, columns, openPRs, user },
     {
       headers: {
         "Cache-Control": "no-cache, no-store, must-revalidate",
@@ -217,14 +176,19 @@ export function shouldRevalidate({ formMethod, defaultShouldRevalidate }: any) {
 
 export default function Index() {
   const data = useLoaderData<LoaderData>();
-  const { pending, readyForProd, completed, openPRs, user } = data;
+  const { environments, columns, openPRs, user } = data;
   const navigation = useNavigation();
   const revalidator = useRevalidator();
 
   // Show loading state during navigation
   const isLoading = navigation.state === "loading";
 
-  const totalScripts = pending.length + readyForProd.length + completed.length;
+  const totalScripts = columns.reduce(
+    (sum, column) => sum + column.scripts.length,
+    0
+  );
+  const labelOf = (name: string) =>
+    environments.find((env) => env.name === name)?.label || name;
 
   // Auto-refresh every 30 seconds to pick up new scripts from webhooks
   useEffect(() => {
@@ -274,12 +238,12 @@ export default function Index() {
         <div>
           <h2 className="text-2xl font-bold mb-2">Approved SQL Scripts</h2>
           <p className="text-neutral-500 text-sm">
-            All scripts must be executed in staging first, then can be promoted
-            to production. Add{" "}
+            Scripts are promoted through{" "}
+            {environments.map((env) => env.label).join(" → ")}. Add{" "}
             <code className="bg-warning-100 text-warning-900 px-2 py-1 rounded text-xs font-mono font-semibold">
               -- DirectProd
             </code>{" "}
-            in script comments to bypass staging requirement.
+            in script comments to bypass the promotion rules.
           </p>
         </div>
         <syncFetcher.Form method="post" action="/api/sync">
@@ -317,7 +281,7 @@ export default function Index() {
           <p className="text-neutral-500">No scripts available</p>
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-flow-col lg:auto-cols-[minmax(16rem,1fr)] gap-4 overflow-x-auto">
           {/* In Review Column */}
           <div className="flex flex-col max-h-[calc(100vh-250px)]">
             <div className="flex items-center gap-2 mb-6 flex-shrink-0">
@@ -344,95 +308,90 @@ export default function Index() {
             </div>
           </div>
 
-          {/* Pending Staging Column */}
-          <div className="flex flex-col max-h-[calc(100vh-250px)]">
-            <div className="flex items-center gap-2 mb-6 flex-shrink-0">
-              <Clock size={20} weight="regular" className="text-warning-500" />
-              <h3 className="text-lg font-semibold text-neutral-900">
-                Ready for Staging
-              </h3>
-              <span className="bg-warning-100 text-warning-900 text-xs font-semibold px-2 py-1 rounded-full">
-                {pending.length}
-              </span>
-            </div>
-            <div className="space-y-3 overflow-y-auto flex-1 min-h-0 pr-3">
-              {pending.length > 0 ? (
-                pending.map((script: any) => (
-                  <KanbanCard
-                    key={script.id}
-                    script={script}
-                    hoverBorderColor="warning-400"
-                  />
-                ))
-              ) : (
-                <div className="text-neutral-400 text-sm text-center py-8">
-                  No scripts pending
-                </div>
-              )}
-            </div>
-          </div>
+          {columns.map((column, index) => (
+            <ScriptColumn
+              key={column.environment ?? "completed"}
+              title={
+                column.environment
+                  ? `Ready for ${labelOf(column.environment)}`
+                  : "Completed"
+              }
+              scripts={column.scripts}
+              tone={
+                column.environment === null
+                  ? "success"
+                  : index === 0
+                  ? "warning"
+                  : "info"
+              }
+              environments={environments}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
 
-          {/* Ready for Production Column */}
-          <div className="flex flex-col max-h-[calc(100vh-250px)]">
-            <div className="flex items-center gap-2 mb-6 flex-shrink-0">
-              <CheckCircle
-                size={20}
-                weight="regular"
-                className="text-info-500"
-              />
-              <h3 className="text-lg font-semibold text-neutral-900">
-                Ready for Production
-              </h3>
-              <span className="bg-info-100 text-info-900 text-xs font-semibold px-2 py-1 rounded-full">
-                {readyForProd.length}
-              </span>
-            </div>
-            <div className="space-y-3 overflow-y-auto flex-1 min-h-0 pr-3">
-              {readyForProd.length > 0 ? (
-                readyForProd.map((script: any) => (
-                  <KanbanCard
-                    key={script.id}
-                    script={script}
-                    hoverBorderColor="info-400"
-                  />
-                ))
-              ) : (
-                <div className="text-neutral-400 text-sm text-center py-8">
-                  No scripts ready
-                </div>
-              )}
-            </div>
-          </div>
+// Kanban column of scripts at one stage of the promotion pipeline
+function ScriptColumn({
+  title,
+  scripts,
+  tone,
+  environments,
+}: {
+  title: string;
+  scripts: ScriptWithStats[];
+  tone: "warning" | "info" | "success";
+  environments: EnvironmentInfo[];
+}) {
+  const styles = {
+    warning: {
+      icon: <Clock size={20} weight="regular" className="text-warning-500" />,
+      count: "bg-warning-100 text-warning-900",
+      empty: "No scripts pending",
+    },
+    info: {
+      icon: (
+        <CheckCircle size={20} weight="regular" className="text-info-500" />
+      ),
+      count: "bg-info-100 text-info-900",
+      empty: "No scripts ready",
+    },
+    success: {
+      icon: <Check size={20} weight="regular" className="text-success-500" />,
+      count: "bg-success-100 text-success-900",
+      empty: "No scripts completed",
+    },
+  }[tone];
 
-          {/* Completed Column */}
-          <div className="flex flex-col max-h-[calc(100vh-250px)]">
-            <div className="flex items-center gap-2 mb-6 flex-shrink-0">
-              <Check size={20} weight="regular" className="text-success-500" />
-              <h3 className="text-lg font-semibold text-neutral-900">
-                Completed
-              </h3>
-              <span className="bg-success-100 text-success-900 text-xs font-semibold px-2 py-1 rounded-full">
-                {completed.length}
-              </span>
-            </div>
-            <div className="space-y-3 overflow-y-auto flex-1 min-h-0 pr-3">
-              {completed.length > 0 ? (
-                completed.map((script: any) => (
-                  <KanbanCard
-                    key={script.id}
-                    script={script}
-                    hoverBorderColor="success-400"
-                  />
-                ))
-              ) : (
-                <div className="text-neutral-400 text-sm text-center py-8">
-                  No scripts completed
-                </div>
-              )}
-            </div>
+  return (
+    <div className="flex flex-col max-h-[calc(100vh-250px)]">
+      <div className="flex items-center gap-2 mb-6 flex-shrink-0">
+        {styles.icon}
+        <h3 className="text-lg font-semibold text-neutral-900">{title}</h3>
+        <span
+          className={`${styles.count} text-xs font-semibold px-2 py-1 rounded-full`}
+        >
+          {scripts.length}
+        </span>
+      </div>
+      <div className="space-y-3 overflow-y-auto flex-1 min-h-0 pr-3">
+        {scripts.length > 0 ? (
+          scripts.map((script) => (
+            <KanbanCard
+              key={script.id}
+              script={script}
+              environments={environments}
+              hoverBorderColor={`${tone}-400`}
+            />
+          ))
+        ) : (
+          <div className="text-neutral-400 text-sm text-center py-8">
+            {styles.empty}
           </div>
-        </div>
-      )}
+        )}
+      </div>
     </div>
   );
 }
@@ -492,9 +451,11 @@ function PRCard({ pr }: { pr: any }) {
 // Compact Kanban Card Component
 function KanbanCard({
   script,
+  environments,
   hoverBorderColor = "primary-400",
 }: {
   script: any;
+  environments: EnvironmentInfo[];
   hoverBorderColor?: string;
 }) {
   const approvers = Array.isArray(script.approvers)
@@ -520,18 +481,14 @@ function KanbanCard({
     return d.toLocaleDateString();
   };
 
-  // Get primary status badge
+  // Get primary status badge: the furthest environment the script ran in
   const getPrimaryStatus = () => {
-    if (script.production_executed) {
+    const furthest = [...environments]
+      .reverse()
+      .find((env) => script.executed_in?.[env.name]);
+    if (furthest) {
       return {
-        text: "Production",
-        icon: <Check size={12} weight="bold" className="inline" />,
-        color: "bg-success-100 text-success-900",
-      };
-    }
-    if (script.staging_executed) {
-      return {
-        text: "Staging",
+        text: furthest.label,
         icon: <Check size={12} weight="bold" className="inline" />,
         color: "bg-success-100 text-success-900",
       };
@@ -645,54 +602,32 @@ function ScriptCard({ script }: { script: any }) {
           <h4 className="text-lg font-semibold mb-2">{script.script_name}</h4>
           <div className="flex gap-2 flex-wrap mb-2">
             {/* Execution Status Badges */}
-            {script.staging_executed && (
-              <span
-                className="inline-block px-3 py-1 rounded-full text-xs font-semibold bg-success-100 text-success-900"
-                title={
-                  script.staging_executed_at
-                    ? `Staging executed ${formatRelativeTime(
-                        script.staging_executed_at
-                      )}`
-                    : "Staging executed"
-                }
-              >
-                <Check size={12} weight="bold" className="inline mr-1" />
-                Staging
-              </span>
+            {Object.entries(script.executed_in || {}).map(
+              ([environment, executedAt]) => (
+                <span
+                  key={environment}
+                  className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-success-100 text-success-900"
+                  title={`${environment} executed ${formatRelativeTime(
+                    executedAt as string
+                  )}`}
+                >
+                  <Check size={12} weight="bold" className="inline mr-1" />
+                  {environment}
+                </span>
+              )
             )}
-            {script.production_executed && (
-              <span
-                className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-success-100 text-success-900"
-                title={
-                  script.production_executed_at
-                    ? `Production executed ${formatRelativeTime(
-                        script.production_executed_at
-                      )}`
-                    : "Production executed"
-                }
-              >
-                <Check size={12} weight="bold" className="inline mr-1" />
-                Production
-              </span>
-            )}
-            {!script.staging_executed && !script.production_executed && (
+            {Object.keys(script.executed_in || {}).length === 0 && (
               <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-warning-100 text-warning-900">
                 <Clock size={12} weight="regular" className="inline mr-1" />
                 Ready
               </span>
             )}
-            {script.staging_executed && !script.production_executed && (
-              <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-info-100 text-info-900">
-                <CheckCircle size={12} weight="bold" className="inline mr-1" />
-                Ready for Prod
-              </span>
-            )}
 
             {/* Feature Flags */}
             {script.direct_prod && (
               <span
                 className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-warning-100 text-warning-900"
-                title="Can execute directly on production"
+                title="Bypasses the environment promotion rules"
               >
                 <Lightning size={12} weight="bold" className="inline mr-1" />
                 DirectProd
@@ -0,0 +1,101 @@
+import { json } from "~/lib/json.server";
+import type { LoaderFunctionArgs } from "react-router";
+import { getUserFromSession } from "~/lib/auth.server";
+import {
+  getArtifactById,
+  readArtifactChunks,
+  toCSVLine,
+  toNDJSONLine,
+  restoreScript,
+} from "~/lib/artifacts.server";
+import type { ResultArtifact } from "~/lib/types";
+
+const contentTypes = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  sql: "application/sql; charset=utf-8",
+};
+
+// An artifact's rows as CSV (with a header line) or NDJSON, one chunk at a time
+async function* rows(
+  artifact: ResultArtifact,
+  format: "csv" | "ndjson"
+): AsyncGenerator<string> {
+  if (format === "csv") yield toCSVLine(artifact.columns);
+  for await (const chunk of readArtifactChunks(artifact.id)) {
+    yield chunk
+      .map((row) =>
+        format === "csv" ? toCSVLine(row) : toNDJSONLine(artifact.columns, row)
+      )
+      .join("");
+  }
+}
+
+// Download the full result set of a statement as CSV (default) or NDJSON.
+// Before images can also be downloaded as a SQL restore script.
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  // Require authentication
+  const user = await getUserFromSession(request);
+  if (!user) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const artifact = await getArtifactById(parseInt(params.id || "0"));
+  if (!artifact) {
+    return json({ error: "Result not found" }, { status: 404 });
+  }
+  if (!artifact.complete) {
+    return json(
+      { error: "Result set was not fully captured" },
+      { status: 409 }
+    );
+  }
+
+  const requested = new URL(request.url).searchParams.get("format");
+  const format =
+    requested === "ndjson" || requested === "sql" ? requested : "csv";
+  if (format === "sql" && artifact.kind !== "before_image") {
+    return json(
+      { error: "Restore scripts are only available for before images" },
+      { status: 400 }
+    );
+  }
+  const encoder = new TextEncoder();
+  const text =
+    format === "sql" ? restoreScript(artifact) : rows(artifact, format);
+
+  // Pull one stored chunk per read so large results stream to the browser
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await text.next();
+        if (next.done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(next.value));
+      } catch (error) {
+        console.error("Error streaming artifact:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await text.return(undefined);
+    },
+  });
+
+  const baseName = (artifact.script_name || "result")
+    .replace(/\.sql$/i, "")
+    .replace(/[^\w.-]+/g, "_");
+  const filename = `${baseName}-${artifact.execution_log_id ?? "run"}-stmt${
+    artifact.statement_index + 1
+  }${artifact.kind === "before_image" ? "-before" : ""}.${format}`;
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": contentTypes[format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-cache, no-store, must-revalidate",
+    },
+  });
+}
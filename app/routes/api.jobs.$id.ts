@@ -0,0 +1,23 @@
+import { json } from "~/lib/json.server";
+import type { LoaderFunctionArgs } from "react-router";
+import { getJobById } from "~/lib/jobs.server";
+import { getUserFromSession } from "~/lib/auth.server";
+
+// Job status for the script page to poll while an execution runs
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  // Require authentication
+  const user = await getUserFromSession(request);
+  if (!user) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const job = await getJobById(parseInt(params.id || "0"));
+  if (!job) {
+    return json({ error: "Job not found" }, { status: 404 });
+  }
+
+  return json(
+    { job },
+    { headers: { "Cache-Control": "no-cache, no-store, must-revalidate" } }
+  );
+}
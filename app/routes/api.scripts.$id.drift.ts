@@ -0,0 +1,34 @@
+import { json } from "~/lib/json.server";
+import type { LoaderFunctionArgs } from "react-router";
+import { getEnvironment } from "~/config.server";
+import { getScriptById } from "~/lib/db.server";
+import { checkSchemaDrift } from "~/lib/drift.server";
+import { getUserFromSession } from "~/lib/auth.server";
+
+// Schema drift a run (?revert=1: a revert) of the script on a target would
+// have to acknowledge; the script page asks when its confirm dialog opens
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  // Require authentication
+  const user = await getUserFromSession(request);
+  if (!user) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const script = await getScriptById(parseInt(params.id || "0"));
+  if (!script) {
+    return json({ error: "Script not found" }, { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const target = url.searchParams.get("target") || "";
+  const revert = url.searchParams.get("revert") === "1";
+  if (!getEnvironment(target)) {
+    return json({ error: `Unknown environment "${target}"` }, { status: 400 });
+  }
+
+  const drift = await checkSchemaDrift(script, target, { revert });
+  return json(
+    { target, revert, drift },
+    { headers: { "Cache-Control": "no-cache, no-store, must-revalidate" } }
+  );
+}
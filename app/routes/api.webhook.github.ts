@@ -4,7 +4,8 @@ import {
   verifyWebhookSignature,
   getPRApprovers,
   getPRFiles,
-  fetchScriptFromGitHub,
+  fetchScriptWithRollback,
+  forwardScriptPath,
   extractTargetDatabase,
   parseSQLMetadata,
 } from "~/lib/github.server";
@@ -91,25 +92,47 @@ export async function action({ request }: ActionFunctionArgs) {
     );
   }
 
+  // Rollback companions (foo.rollback.sql) are stored with their forward
+  // script, so a PR touching either one refreshes both
+  const scriptPaths = [
+    ...new Set(sqlFiles.map((f) => forwardScriptPath(f.filename))),
+  ];
+
   // Process each SQL file
   const results = [];
-  for (const file of sqlFiles) {
-    const scriptName = file.filename.split("/").pop() || file.filename;
+  for (const scriptPath of scriptPaths) {
+    const scriptName = scriptPath.split("/").pop() || scriptPath;
 
     // Fetch the file content first to parse metadata
-    const content = await fetchScriptFromGitHub(file.filename);
+    let script: { content: string; rollbackContent: string | null } | null;
+    try {
+      script = await fetchScriptWithRollback(scriptPath);
+    } catch (error: any) {
+      console.log(
+        `   ❌ Rejected: ${scriptName} (${error?.message || "Unknown error"})`
+      );
+      results.push({
+        filename: scriptPath,
+        success: false,
+        error: error?.message || "Unknown error",
+      });
+      continue;
+    }
 
-    if (!content) {
+    if (!script) {
       console.log(`   ❌ Failed to fetch: ${scriptName}`);
       continue;
     }
+    const content = script.content;
 
     // Parse metadata to check for DirectProd flag
     const metadata = parseSQLMetadata(content);
     const directProd = metadata.directProd === true;
+    const repeatable = metadata.repeatable === true;
 
-    // Extract target database (defaults to staging for new workflow)
-    const targetDb = extractTargetDatabase(file.filename, content) || "staging";
+    // Extract target database (defaults to the first environment)
+    const targetDb =
+      extractTargetDatabase(scriptPath, content) || config.environments[0].name;
 
     // Add to approved scripts
     const success = await addApprovedScript({
@@ -119,17 +142,22 @@ export async function action({ request }: ActionFunctionArgs) {
       githubPrUrl: prUrl,
       approvers,
       directProd,
+      repeatable,
+      rollbackContent: script.rollbackContent,
     });
 
     if (success) {
       const directProdFlag = directProd ? " (DirectProd)" : "";
-      console.log(`   ✓ Added: ${scriptName} → ${targetDb}${directProdFlag}`);
+      const rollbackFlag = script.rollbackContent ? " (+rollback)" : "";
+      console.log(
+        `   ✓ Added: ${scriptName} → ${targetDb}${directProdFlag}${rollbackFlag}`
+      );
     } else {
       console.log(`   ❌ Failed to add: ${scriptName}`);
     }
 
     results.push({
-      filename: file.filename,
+      filename: scriptPath,
       success,
       targetDatabase: targetDb,
     });
@@ -4,8 +4,11 @@ import { useLoaderData } from "react-router";
 import type { LoaderFunctionArgs, MetaFunction } from "react-router";
 import { getExecutionHistory } from "~/lib/db.server";
 import { getUserFromSession } from "~/lib/auth.server";
+import { environmentInfo } from "~/config.server";
+import type { EnvironmentInfo } from "~/lib/types";
 import { useState } from "react";
 import { DetailsDrawer } from "~/components/DetailsDrawer";
+import { StatusBadge } from "~/components/StatusBadge";
 import {
   Table,
   TableHeader,
@@ -27,17 +30,18 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
   const history = await getExecutionHistory(limit);
 
-  return json({ executions: history, user });
+  return json({ executions: history, environments: environmentInfo(), user });
 }
 
 type LoaderData = {
   executions: Awaited<ReturnType<typeof getExecutionHistory>>;
+  environments: EnvironmentInfo[];
   user: NonNullable<Awaited<ReturnType<typeof getUserFromSession>>>;
 };
 
 export default function Executions() {
   const data = useLoaderData<LoaderData>();
-  const { executions: history } = data;
+  const { executions: history, environments } = data;
   const [selectedEntry, setSelectedEntry] = useState<any>(null);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
 
@@ -100,27 +104,28 @@ export default function Executions() {
                     <TableCell>
                       <span
                         className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold ${
-                          entry.target_database === "production"
+                          environments.some(
+                            (env) =>
+                              env.name === entry.target_database &&
+                              env.protected
+                          )
                             ? "bg-error-100 text-error-900"
                             : "bg-info-100 text-info-900"
                         }`}
                       >
                         {entry.target_database}
                       </span>
+                      {entry.target_member && (
+                        <span className="ml-1 font-mono text-xs text-neutral-600">
+                          {entry.target_member}
+                        </span>
+                      )}
                     </TableCell>
                     <TableCell className="text-neutral-700">
                       {entry.executed_by}
                     </TableCell>
                     <TableCell>
-                      <span
-                        className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold ${
-                          entry.status === "success"
-                            ? "bg-success-100 text-success-900"
-                            : "bg-error-100 text-error-900"
-                        }`}
-                      >
-                        {entry.status}
-                      </span>
+                      <StatusBadge status={entry.status} />
                     </TableCell>
                     <TableCell className="text-neutral-700">
                       {entry.rows_affected !== null
@@ -157,6 +162,7 @@ export default function Executions() {
           isOpen={isDrawerOpen}
           onClose={closeDrawer}
           entry={selectedEntry}
+          environments={environments}
         />
       )}
     </div>
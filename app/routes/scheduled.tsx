@@ -0,0 +1,187 @@
+import { redirect } from "react-router";
+import { json } from "~/lib/json.server";
+import { useActionData, useLoaderData, Form } from "react-router";
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "react-router";
+import { getUserFromSession } from "~/lib/auth.server";
+import { cancelJob, getJobById, getScheduledJobs } from "~/lib/jobs.server";
+import { maintenanceWindows, nextWindow } from "~/lib/schedule.server";
+import type { ExecutionJob } from "~/lib/types";
+import {
+  Table,
+  TableHeader,
+  TableHeaderCell,
+  TableBody,
+  TableRow,
+  TableCell,
+} from "~/components/Table";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  // Require authentication
+  const user = await getUserFromSession(request);
+  if (!user) {
+    throw redirect("/login");
+  }
+
+  const jobs = await getScheduledJobs();
+  const windows = maintenanceWindows();
+
+  return json({
+    jobs,
+    windows: windows.map((window) => window.label),
+    nextWindow: nextWindow(windows),
+    user,
+  });
+}
+
+// Cancel a scheduled execution before it starts
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await getUserFromSession(request);
+  if (!user) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const formData = await request.formData();
+  const jobId = parseInt((formData.get("jobId") as string) || "0");
+  const job = await getJobById(jobId);
+  if (!job || !job.scheduled_for) {
+    return json({ success: false, error: "Scheduled execution not found" });
+  }
+
+  const cancelledBy = (user.email || user.username || "unknown").trim();
+  const result = await cancelJob(jobId, cancelledBy);
+  if (!result.success) {
+    return json({
+      success: false,
+      error: result.error || "Could not cancel execution",
+    });
+  }
+  console.log(
+    `🛑 Cancelled scheduled job #${job.id} (${job.script_name} on ${job.target_database}) requested by ${cancelledBy}`
+  );
+  return json({
+    success: true,
+    message: `Cancelled ${job.script_name} on ${job.target_database}`,
+  });
+}
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Scheduled Executions - Git for SQL" }];
+};
+
+type LoaderData = {
+  jobs: ExecutionJob[];
+  windows: string[];
+  nextWindow: { start: string; end: string; label: string } | null;
+  user: NonNullable<Awaited<ReturnType<typeof getUserFromSession>>>;
+};
+
+type ActionData =
+  | { success: true; message: string }
+  | { success: false; error: string }
+  | undefined;
+
+export default function Scheduled() {
+  const { jobs, windows, nextWindow } = useLoaderData<LoaderData>();
+  const actionData = useActionData<ActionData>();
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold mb-2">Scheduled Executions</h2>
+        <p className="text-neutral-600">
+          Executions waiting for their scheduled time. They run as the user who
+          scheduled them.
+        </p>
+        <p className="text-sm text-neutral-500 mt-1">
+          {windows.length > 0
+            ? `Maintenance windows: ${windows.join(", ")}${
+                nextWindow
+                  ? ` · next opens ${new Date(
+                      nextWindow.start
+                    ).toLocaleString()}`
+                  : ""
+              }`
+            : "No maintenance windows configured"}
+        </p>
+      </div>
+
+      {actionData && (
+        <div
+          className={`mb-4 p-4 rounded-lg ${
+            actionData.success
+              ? "bg-success-50 border border-success-200 text-success-900"
+              : "bg-error-50 border border-error-200 text-error-900"
+          }`}
+        >
+          {actionData.success
+            ? actionData.message
+            : `Error: ${actionData.error}`}
+        </div>
+      )}
+
+      {jobs.length === 0 ? (
+        <div className="bg-white border border-neutral-200 rounded-lg p-6 mb-4">
+          <p className="text-neutral-600">No scheduled executions</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-neutral-200 rounded-lg p-6 mb-4">
+          <Table>
+            <TableHeader>
+              <TableHeaderCell>Script</TableHeaderCell>
+              <TableHeaderCell>Database</TableHeaderCell>
+              <TableHeaderCell>Scheduled For</TableHeaderCell>
+              <TableHeaderCell>Must Start By</TableHeaderCell>
+              <TableHeaderCell>Scheduled By</TableHeaderCell>
+              <TableHeaderCell>Actions</TableHeaderCell>
+            </TableHeader>
+            <TableBody>
+              {jobs.map((job) => (
+                <TableRow key={job.id}>
+                  <TableCell>
+                    <a
+                      href={`/scripts/${job.script_id}`}
+                      className="font-medium text-primary-600 hover:text-primary-700 hover:underline"
+                    >
+                      {job.script_name}
+                    </a>
+                    <div className="text-xs text-neutral-500 mt-1">
+                      Job #{job.id} · scheduled{" "}
+                      {new Date(job.created_at).toLocaleString()}
+                    </div>
+                  </TableCell>
+                  <TableCell>{job.target_database}</TableCell>
+                  <TableCell className="text-sm text-neutral-700">
+                    {new Date(job.scheduled_for!).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-sm text-neutral-600">
+                    {job.run_before
+                      ? new Date(job.run_before).toLocaleString()
+                      : "-"}
+                  </TableCell>
+                  <TableCell className="text-neutral-700">
+                    {job.requested_by}
+                  </TableCell>
+                  <TableCell>
+                    <Form method="post">
+                      <input type="hidden" name="jobId" value={job.id} />
+                      <button
+                        type="submit"
+                        className="text-sm font-medium text-error-600 hover:text-error-700 hover:underline"
+                      >
+                        Cancel
+                      </button>
+                    </Form>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
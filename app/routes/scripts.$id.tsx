@@ -6,18 +6,65 @@ import {
   Form,
   useNavigation,
   useRevalidator,
+  useFetcher,
 } from "react-router";
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
 import {
   getScriptById,
-  executeSQL,
   getScriptExecutionHistory,
-  canExecuteOnProduction,
-  updateScriptExecutionStatus,
+  canExecuteOn,
+  meetsPromotionRules,
+  promotionError,
+  explainSQL,
+  getRevertableExecution,
+  resolveParams,
+  blocksRerun,
+  rerunError,
+  resolveReadOnly,
+  resolveRunAs,
+  scriptRisk,
+  riskRequirements,
+  riskPolicyError,
+  lockExecution,
 } from "~/lib/db.server";
-import { logExecution } from "~/lib/audit.server";
+import { parseSQLMetadata } from "~/lib/github.server";
+import { PARAM_TYPES, validateParams } from "~/lib/params";
+import { RISK_RULES } from "~/lib/risk";
+import { classifyStatement, splitStatements } from "~/lib/sql";
+import { config, environmentInfo, getEnvironment } from "~/config.server";
+import {
+  enqueueExecution,
+  ActiveJobError,
+  getJobById,
+  getActiveJobs,
+  cancelJob,
+  findActiveJob,
+  describeActiveJob,
+  isScheduled,
+} from "~/lib/jobs.server";
+import { maintenanceWindows, nextWindow } from "~/lib/schedule.server";
+import { saveQueryPlan, getQueryPlanById } from "~/lib/plans.server";
+import { resultStatements } from "~/lib/compare.server";
+import {
+  checkSchemaDrift,
+  driftError,
+  hasSchemaDrift,
+} from "~/lib/drift.server";
 import { useState, useEffect, useRef } from "react";
-import type { ExecutionLog } from "~/lib/types";
+import type {
+  ApprovedScript,
+  EnvironmentInfo,
+  ExecutionJob,
+  JobMember,
+  ExecutionLog,
+  QueryPlan,
+  ScriptParam,
+  ParamValues,
+  RiskFinding,
+  SchemaDrift,
+  DriftAcknowledgement,
+  AssertionResult,
+} from "~/lib/types";
 import { getUserFromSession } from "~/lib/auth.server";
 import {
   Check,
@@ -27,6 +74,11 @@ import {
   Lightning,
   X,
   Info,
+  ArrowCounterClockwise,
+  ArrowClockwise,
+  Eye,
+  UserSwitch,
+  ListChecks,
 } from "phosphor-react";
 import {
   Table,
@@ -38,6 +90,8 @@ import {
 } from "~/components/Table";
 import { DetailsDrawer } from "~/components/DetailsDrawer";
 import { LoadingSpinner } from "~/components/LoadingSpinner";
+import { StatusBadge, isSuccessStatus } from "~/components/StatusBadge";
+import { QueryPlanView } from "~/components/PlanTree";
 
 export async function loader({ params, request }: LoaderFunctionArgs) {
   // Require authentication
@@ -58,7 +112,120 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
 
   const history = await getScriptExecutionHistory(script.script_name);
 
-  return json({ script, history, user });
+  // Executions of this script still queued or running (progress is polled),
+  // and those waiting for their scheduled time
+  const jobs = await getActiveJobs(scriptId);
+  const activeJobs = jobs.filter((job) => !isScheduled(job));
+  const scheduledJobs = jobs.filter(isScheduled);
+  const window = nextWindow(maintenanceWindows());
+
+  // Environments the promotion rules currently allow the script to run in
+  const environments = environmentInfo();
+  const unlocked: Record<string, boolean> = Object.fromEntries(
+    environments.map((env) => [env.name, meetsPromotionRules(script, env.name)])
+  );
+  // Environments where it already succeeded and may not run again
+  const rerunBlocked: Record<string, boolean> = Object.fromEntries(
+    environments.map((env) => [env.name, blocksRerun(script, env.name)])
+  );
+
+  // Per target, the successful execution a Revert would undo
+  const revertable: Record<string, RevertTarget | null> = {};
+  if (script.rollback_content) {
+    for (const { name: target } of environments) {
+      const execution = await getRevertableExecution(
+        script.script_name,
+        target
+      );
+      revertable[target] = execution
+        ? {
+            id: execution.id,
+            executed_by: execution.executed_by,
+            executed_at: execution.executed_at,
+          }
+        : null;
+    }
+  }
+
+  // Static risk findings, and what RISK_POLICY asks for on each environment
+  const risk = scriptRisk(script);
+  const riskRequired = Object.fromEntries(
+    environments.map((env) => [env.name, riskRequirements(risk, env.name)])
+  );
+  // The same for the rollback script, which a Revert runs
+  const rollbackRisk = script.rollback_content
+    ? scriptRisk(script, { revert: true })
+    : [];
+  const rollbackRiskRequired = Object.fromEntries(
+    environments.map((env) => [
+      env.name,
+      riskRequirements(rollbackRisk, env.name),
+    ])
+  );
+
+  // Typed inputs the script declares; a bad declaration blocks execution
+  let declaredParams: ScriptParam[] = [];
+  let paramsError: string | null = null;
+  try {
+    declaredParams = resolveParams(script.script_content);
+  } catch (error: any) {
+    paramsError = error.message;
+  }
+
+  return json({
+    script,
+    history,
+    user,
+    activeJobs,
+    scheduledJobs,
+    nextWindow: window,
+    environments,
+    unlocked,
+    rerunBlocked,
+    revertable,
+    params: declaredParams,
+    paramsError,
+    readOnly: resolveReadOnly(script.script_content),
+    runAs: parseSQLMetadata(script.script_content).runAs || null,
+    assertions: parseSQLMetadata(script.script_content).assertions || [],
+    risk,
+    riskRequired,
+    rollbackRisk,
+    rollbackRiskRequired,
+    // Runs whose results can be compared side by side
+    comparable: history.filter(
+      (entry) =>
+        isSuccessStatus(entry.status) && resultStatements(entry).length > 0
+    ).length,
+  });
+}
+
+// Parameter values submitted with a form (fields named param:<name>)
+function readParams(
+  formData: FormData,
+  scriptContent: string
+): { values: ParamValues | null; error?: string } {
+  let declared: ScriptParam[];
+  try {
+    declared = resolveParams(scriptContent);
+  } catch (error: any) {
+    return { values: null, error: error.message };
+  }
+  if (declared.length === 0) return { values: null };
+
+  const { values, errors } = validateParams(
+    declared,
+    Object.fromEntries(
+      declared.map((param) => [
+        param.name,
+        formData.get(`param:${param.name}`) as string | null,
+      ])
+    )
+  );
+  if (errors.length > 0) {
+    return { values: null, error: `Invalid parameters: ${errors.join("; ")}` };
+  }
+  return { values };
 }
 
 export async function action({ request, params }: ActionFunctionArgs) {
@@ -78,105 +245,464 @@ export async function action({ request, params }: ActionFunctionArgs) {
   // Get form data
   const formData = await request.formData();
   const targetDatabase =
-    (formData.get("targetDatabase") as string) || "staging";
+    (formData.get("targetDatabase") as string) || config.environments[0].name;
+  const intent = formData.get("intent");
+  const dryRun = intent === "dryRun";
 
   // Use authenticated user's email or username (always available since user is authenticated)
   const executedBy = (user.email || user.username || "unknown").trim();
 
-  // Enforce staging-first workflow (unless direct_prod flag is set)
-  if (targetDatabase === "production") {
-    const canExecute = await canExecuteOnProduction(scriptId);
-    if (!canExecute) {
+  // Cancel (or force-terminate) a queued or running execution job
+  if (intent === "cancel" || intent === "terminate") {
+    const jobId = parseInt((formData.get("jobId") as string) || "0");
+    const job = await getJobById(jobId);
+    if (!job || job.script_id !== scriptId) {
+      return json({ success: false, error: "Execution job not found" });
+    }
+
+    const cancelResult = await cancelJob(jobId, executedBy, {
+      terminate: intent === "terminate",
+    });
+    if (!cancelResult.success) {
       return json({
         success: false,
-        error:
-          "Script must be executed successfully in staging first, or have -- DirectProd flag set",
+        error: cancelResult.error || "Could not cancel execution",
       });
     }
+    console.log(
+      `🛑 ${intent === "terminate" ? "Terminated" : "Cancelled"} job #${
+        job.id
+      } (${script.script_name} on ${
+        job.target_database
+      }) requested by ${executedBy}`
+    );
+    return json({
+      success: true,
+      message:
+        cancelResult.message ||
+        (intent === "terminate"
+          ? "Backend terminated"
+          : "Cancel requested - the execution will stop shortly"),
+    });
   }
 
-  // Execute the SQL
-  const result = await executeSQL(
-    targetDatabase as "staging" | "production",
-    script.script_content
-  );
+  if (!getEnvironment(targetDatabase)) {
+    return json({
+      success: false,
+      error: `Unknown environment "${targetDatabase}"`,
+    });
+  }
 
-  // Log the execution (always log, even on error)
+  // The -- RunAs role must be allowed on the target
   try {
-    await logExecution({
-      scriptName: script.script_name,
-      scriptContent: script.script_content,
-      executedBy: executedBy,
-      targetDatabase: targetDatabase as "staging" | "production",
-      status: result.success ? "success" : "error",
-      rowsAffected: result.rowsAffected,
-      errorMessage: result.error,
-      executionTimeMs: result.executionTime,
-      githubPrUrl: script.github_pr_url || undefined,
-      approvers: Array.isArray(script.approvers) ? script.approvers : [],
-      resultData: result.resultRows,
-    });
-  } catch (logError: any) {
-    console.error(`Failed to log execution:`, logError);
-    // Continue even if logging fails
+    resolveRunAs(targetDatabase, script.script_content);
+  } catch (error: any) {
+    return json({ success: false, error: error.message });
+  }
+
+  // One execution of a script per target at a time (dry runs always roll
+  // back, so they don't count)
+  if (intent !== "explain" && !dryRun) {
+    const active = await findActiveJob(scriptId, targetDatabase);
+    if (active) {
+      return json({ success: false, error: describeActiveJob(active) });
+    }
   }
 
-  // Update script execution status if successful
-  if (result.success) {
+  // Run the approved rollback script to undo the latest execution on a target
+  if (intent === "revert") {
+    if (!script.rollback_content) {
+      return json({
+        success: false,
+        error: "This script has no rollback script",
+      });
+    }
+    const forward = await getRevertableExecution(
+      script.script_name,
+      targetDatabase
+    );
+    if (!forward) {
+      return json({
+        success: false,
+        error: `No successful ${targetDatabase} execution left to revert`,
+      });
+    }
+
+    // The rollback script is held to RISK_POLICY and the drift check like
+    // any other run on the target
+    const riskError = riskPolicyError(
+      script,
+      targetDatabase,
+      formData.get("confirmation") as string | null,
+      { revert: true }
+    );
+    if (riskError) {
+      return json({ success: false, error: riskError });
+    }
+    const drift = await acknowledgeDrift(
+      formData,
+      script,
+      targetDatabase,
+      executedBy,
+      { revert: true }
+    );
+    if ("error" in drift) {
+      return json({ success: false, error: drift.error });
+    }
+
+    try {
+      const job = await enqueueExecution({
+        scriptId,
+        scriptName: script.script_name,
+        targetDatabase: targetDatabase,
+        mode: "revert",
+        requestedBy: executedBy,
+        revertsExecutionId: forward.id,
+        // The rollback undoes the run with the values it was given
+        parameters: forward.parameters,
+        schemaDrift: drift.schemaDrift,
+      });
+      return json({
+        success: true,
+        jobId: job.id,
+        message: `Revert queued as job #${job.id}`,
+      });
+    } catch (error: any) {
+      if (error instanceof ActiveJobError) {
+        return json({ success: false, error: error.message });
+      }
+      console.error(`Failed to queue revert:`, error);
+      return json({
+        success: false,
+        error: "Could not queue revert. Please try again.",
+      });
+    }
+  }
+
+  const submittedParams = readParams(formData, script.script_content);
+  if (submittedParams.error) {
+    return json({ success: false, error: submittedParams.error });
+  }
+
+  // Show the query plan of each statement; nothing is persisted on the target
+  if (intent === "explain") {
+    const analyze = formData.get("analyze") === "on";
+    // EXPLAIN ANALYZE really runs the statements (then rolls back), so it
+    // follows the same promotion rules as an execution
+    if (analyze && !(await canExecuteOn(scriptId, targetDatabase))) {
+      return json({
+        success: false,
+        error: `EXPLAIN ANALYZE on ${targetDatabase}: ${promotionError(
+          targetDatabase
+        )}`,
+      });
+    }
+
     try {
-      await updateScriptExecutionStatus(
+      const statements = await explainSQL(
+        targetDatabase,
+        script.script_content,
+        { analyze, params: submittedParams.values || undefined }
+      );
+      const plan = await saveQueryPlan({
         scriptId,
-        targetDatabase as "staging" | "production"
+        scriptName: script.script_name,
+        targetDatabase: targetDatabase,
+        analyzed: analyze,
+        statements,
+        createdBy: executedBy,
+      });
+      return json({ success: true, plan });
+    } catch (error: any) {
+      console.error(`Failed to explain ${script.script_name}:`, error);
+      return json({
+        success: false,
+        error: error.message || "Could not generate the query plan",
+      });
+    }
+  }
+
+  // Enforce the promotion rules (unless direct_prod flag is set)
+  if (!(await canExecuteOn(scriptId, targetDatabase))) {
+    return json({ success: false, error: promotionError(targetDatabase) });
+  }
+  if (!dryRun && blocksRerun(script, targetDatabase)) {
+    return json({ success: false, error: rerunError(script, targetDatabase) });
+  }
+  const riskError = dryRun
+    ? null
+    : riskPolicyError(
+        script,
+        targetDatabase,
+        formData.get("confirmation") as string | null
       );
-    } catch (markError: any) {
-      console.error(`Failed to update script status:`, markError);
+  if (riskError) {
+    return json({ success: false, error: riskError });
+  }
+
+  // Schema drift must be acknowledged
+  let schemaDrift: DriftAcknowledgement | null = null;
+  if (!dryRun) {
+    const drift = await acknowledgeDrift(
+      formData,
+      script,
+      targetDatabase,
+      executedBy
+    );
+    if ("error" in drift) {
+      return json({ success: false, error: drift.error });
     }
+    schemaDrift = drift.schemaDrift;
   }
 
-  if (result.success) {
-    const hasResults = result.resultRows && result.resultRows.length > 0;
-    const resultMsg = hasResults
-      ? `Returned ${result.resultRows?.length || 0} row${
-          (result.resultRows?.length || 0) !== 1 ? "s" : ""
-        }`
-      : `${result.rowsAffected || 0} row${
-          (result.rowsAffected || 0) !== 1 ? "s" : ""
-        } affected`;
+  // Scheduled runs wait for a chosen time or the next maintenance window
+  let scheduledFor: Date | null = null;
+  let runBefore: Date | null = null;
+  const schedule = formData.get("schedule");
+  if (!dryRun && schedule === "at") {
+    scheduledFor = new Date((formData.get("scheduledFor") as string) || "");
+    if (isNaN(scheduledFor.getTime()) || scheduledFor <= new Date()) {
+      return json({
+        success: false,
+        error: "Pick a time in the future to schedule the execution",
+      });
+    }
+  } else if (!dryRun && schedule === "window") {
+    const window = nextWindow(maintenanceWindows());
+    if (!window) {
+      return json({
+        success: false,
+        error: "No maintenance windows are configured (MAINTENANCE_WINDOWS)",
+      });
+    }
+    scheduledFor = window.start;
+    runBefore = window.end;
+  }
+
+  // The plan the user was looking at is saved with the execution
+  const planId = parseInt((formData.get("planId") as string) || "0");
+  const plan = planId ? await getQueryPlanById(planId) : null;
+
+  // Repeat the rerun and promotion checks under the execution lock, against
+  // a fresh copy of the script: a run that was still going during the checks
+  // above may have succeeded since. (The worker checks again under the lock
+  // before running the job.)
+  if (!dryRun) {
+    const releaseLock = await lockExecution(script.script_name, targetDatabase);
+    if (!releaseLock) {
+      return json({
+        success: false,
+        error: `${script.script_name} is already running on ${targetDatabase}`,
+      });
+    }
+    let lockedError: string | null;
+    try {
+      const current = await getScriptById(scriptId);
+      lockedError = !current
+        ? "Script not found"
+        : !(await canExecuteOn(scriptId, targetDatabase))
+        ? promotionError(targetDatabase)
+        : blocksRerun(current, targetDatabase)
+        ? rerunError(current, targetDatabase)
+        : null;
+    } finally {
+      await releaseLock();
+    }
+    if (lockedError) {
+      return json({ success: false, error: lockedError });
+    }
+  }
+
+  // Queue the execution; the background worker runs and logs it
+  try {
+    const job = await enqueueExecution({
+      scriptId,
+      scriptName: script.script_name,
+      targetDatabase: targetDatabase,
+      mode: dryRun ? "dry_run" : "execute",
+      requestedBy: executedBy,
+      queryPlanId: plan && plan.script_id === scriptId ? plan.id : null,
+      parameters: submittedParams.values,
+      schemaDrift,
+      scheduledFor,
+      runBefore,
+    });
+    if (scheduledFor) {
+      console.log(
+        `🕑 Scheduled ${
+          script.script_name
+        } on ${targetDatabase} for ${scheduledFor.toISOString()} (job #${
+          job.id
+        }) by ${executedBy}`
+      );
+      return json({
+        success: true,
+        message: `Execution scheduled for ${scheduledFor.toLocaleString()} as job #${
+          job.id
+        }`,
+      });
+    }
     return json({
       success: true,
-      message: `Successfully executed. ${resultMsg} in ${result.executionTime}ms`,
+      jobId: job.id,
+      message: `${dryRun ? "Dry run" : "Execution"} queued as job #${job.id}`,
     });
-  } else {
+  } catch (error: any) {
+    if (error instanceof ActiveJobError) {
+      return json({ success: false, error: error.message });
+    }
+    console.error(`Failed to queue execution:`, error);
     return json({
       success: false,
-      error: result.error || "Execution failed with unknown error",
+      error: "Could not queue execution. Please try again.",
     });
   }
 }
 
+// Schema drift between the target and the environments the script already
+// ran on must be acknowledged; the acknowledgement (with the drift as it was
+// shown) goes to the audit log with the execution
+async function acknowledgeDrift(
+  formData: FormData,
+  script: ApprovedScript,
+  targetDatabase: string,
+  executedBy: string,
+  options: { revert?: boolean } = {}
+): Promise<{ schemaDrift: DriftAcknowledgement | null } | { error: string }> {
+  const drift = await checkSchemaDrift(script, targetDatabase, options);
+  if (!hasSchemaDrift(drift)) return { schemaDrift: null };
+  if (formData.get("acknowledgeDrift") !== "on") {
+    return { error: driftError(drift, targetDatabase) };
+  }
+  console.log(
+    `⚠️ ${executedBy} acknowledged schema drift to ${
+      options.revert ? "revert" : "run"
+    } ${script.script_name} on ${targetDatabase}`
+  );
+  return {
+    schemaDrift: {
+      acknowledgedBy: executedBy,
+      acknowledgedAt: new Date(),
+      drift,
+    },
+  };
+}
+
+// Execution a Revert button would undo
+type RevertTarget = Pick<ExecutionLog, "id" | "executed_by" | "executed_at">;
+
 type LoaderData = {
   script: NonNullable<Awaited<ReturnType<typeof getScriptById>>>;
   history: Awaited<ReturnType<typeof getScriptExecutionHistory>>;
   user: NonNullable<Awaited<ReturnType<typeof getUserFromSession>>>;
+  activeJobs: ExecutionJob[];
+  scheduledJobs: ExecutionJob[];
+  nextWindow: { start: string; end: string; label: string } | null;
+  environments: EnvironmentInfo[];
+  unlocked: Record<string, boolean>;
+  rerunBlocked: Record<string, boolean>;
+  revertable: Record<string, RevertTarget | null>;
+  params: ScriptParam[];
+  paramsError: string | null;
+  readOnly: { readOnly: boolean; detected: boolean };
+  runAs: string | null;
+  assertions: { phase: "before" | "after"; sql: string }[];
+  risk: RiskFinding[];
+  riskRequired: Record<string, { approvals: number; confirm: boolean }>;
+  rollbackRisk: RiskFinding[];
+  rollbackRiskRequired: Record<string, { approvals: number; confirm: boolean }>;
+  comparable: number;
 };
 
 type ActionData =
-  | { success: true; message: string }
+  | { success: true; message: string; jobId?: number }
   | { success: false; error: string }
   | undefined;
 
+type DriftData =
+  | { target: string; revert: boolean; drift: SchemaDrift[] }
+  | { error: string };
+
+type PlanActionData =
+  | { success: true; plan: QueryPlan }
+  | { success: false; error: string };
+
 export default function ScriptDetail() {
   const data = useLoaderData<LoaderData>();
-  const { script, history, user } = data;
+  const {
+    script,
+    history,
+    user,
+    activeJobs,
+    scheduledJobs,
+    nextWindow,
+    environments,
+    unlocked,
+    rerunBlocked,
+    revertable,
+    params,
+    paramsError,
+    readOnly,
+    runAs,
+    assertions,
+    risk,
+    riskRequired,
+    rollbackRisk,
+    rollbackRiskRequired,
+    comparable,
+  } = data;
   const actionData = useActionData<ActionData>();
   const navigation = useNavigation();
   const revalidator = useRevalidator();
+  // Only Postgres reports query plans
+  const planEnvironments = environments.filter(
+    (env) => env.driver === "postgres"
+  );
   const [showConfirm, setShowConfirm] = useState(false);
-  const [targetDatabase, setTargetDatabase] = useState<
-    "staging" | "production"
-  >("staging");
+  const [targetDatabase, setTargetDatabase] = useState<string>(
+    environments[0].name
+  );
   const [selectedEntry, setSelectedEntry] = useState<any>(null);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const [shownPlan, setShownPlan] = useState<QueryPlan | null>(null);
+  const [revertTarget, setRevertTarget] = useState<string | null>(null);
+  const [paramValues, setParamValues] = useState<Record<string, string>>({});
+  const [when, setWhen] = useState<"now" | "at" | "window">("now");
+  const [scheduleAt, setScheduleAt] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [driftAcknowledged, setDriftAcknowledged] = useState(false);
+  // Schema drift is checked when a confirm dialog for a protected target
+  // opens (the action checks again when the run is submitted)
+  const driftFetcher = useFetcher<DriftData>();
+  const checkDrift = (target: string, revert: boolean) => {
+    setDriftAcknowledged(false);
+    if (environments.find((env) => env.name === target)?.protected) {
+      driftFetcher.load(
+        `/api/scripts/${script.id}/drift?target=${encodeURIComponent(target)}${
+          revert ? "&revert=1" : ""
+        }`
+      );
+    }
+  };
+  const driftFor = (target: string | null, revert: boolean) => {
+    const data = driftFetcher.data;
+    return data &&
+      "drift" in data &&
+      data.target === target &&
+      data.revert === revert
+      ? data.drift
+      : [];
+  };
+  const driftChecking = driftFetcher.state === "loading";
+  const targetDrift = driftFor(targetDatabase, false);
+  const driftBlocks = targetDrift.some(
+    (entry) => entry.error || entry.differences.length > 0
+  );
+  const targetRevertDrift = driftFor(revertTarget, true);
+  const revertDriftBlocks = targetRevertDrift.some(
+    (entry) => entry.error || entry.differences.length > 0
+  );
+  const paramCheck = validateParams(params, paramValues);
   const prevNavigationState = useRef<string>(navigation.state);
   const wasSubmitting = useRef<boolean>(false);
 
@@ -192,6 +718,26 @@ export default function ScriptDetail() {
 
   const isExecuting = navigation.state === "submitting";
 
+  // Executions undone by a successful revert
+  const revertedIds = new Set(
+    history
+      .filter(
+        (entry) => entry.reverts_execution_id && entry.status === "success"
+      )
+      .map((entry) => entry.reverts_execution_id)
+  );
+
+  // Jobs to show progress for: anything still active plus the one just queued
+  const trackedJobIds = activeJobs.map((job) => job.id);
+  if (
+    actionData &&
+    actionData.success &&
+    actionData.jobId &&
+    !trackedJobIds.includes(actionData.jobId)
+  ) {
+    trackedJobIds.push(actionData.jobId);
+  }
+
   // Track when we start submitting
   useEffect(() => {
     if (navigation.state === "submitting") {
@@ -206,16 +752,17 @@ export default function ScriptDetail() {
       wasSubmitting.current &&
       navigation.state === "idle" &&
       actionData &&
-      showConfirm
+      (showConfirm || revertTarget)
     ) {
       wasSubmitting.current = false;
       setShowConfirm(false);
+      setRevertTarget(null);
       // Refresh loader data to get updated execution status
       if ("success" in actionData && actionData.success) {
         revalidator.revalidate();
       }
     }
-  }, [navigation.state, actionData, showConfirm, revalidator]);
+  }, [navigation.state, actionData, showConfirm, revertTarget, revalidator]);
 
   const approvers = Array.isArray(script.approvers)
     ? script.approvers
@@ -224,10 +771,16 @@ export default function ScriptDetail() {
     : [];
 
   // Determine workflow state
-  const stagingExecuted = script.staging_executed === true;
-  const productionExecuted = script.production_executed === true;
+  const executedIn = script.executed_in || {};
   const directProd = script.direct_prod === true;
-  const canExecuteProduction = stagingExecuted || directProd;
+  const executed = environments.filter((env) => executedIn[env.name]);
+  const nextEnvironment = environments.find((env) => !executedIn[env.name]);
+  const lockedEnvironment = environments.find((env) => !unlocked[env.name]);
+  const labelOf = (name: string) =>
+    environments.find((env) => env.name === name)?.label || name;
+  const targetEnvironment = environments.find(
+    (env) => env.name === targetDatabase
+  );
 
   return (
     <div>
@@ -249,69 +802,134 @@ export default function ScriptDetail() {
             {/* Status Badges - Left Side */}
             <div className="flex flex-wrap items-center gap-2">
               {/* Primary Status Badge - Larger and More Prominent */}
-              {productionExecuted && (
+              {!nextEnvironment && (
                 <span className="inline-flex items-center gap-2 px-4 py-1.5 rounded-full text-sm font-semibold bg-success-100 text-success-900">
                   <Check size={16} weight="regular" />
-                  Production Executed
+                  {environments[environments.length - 1].label} Executed
                 </span>
               )}
-              {!productionExecuted && stagingExecuted && (
+              {nextEnvironment && executed.length > 0 && (
                 <span className="inline-flex items-center gap-2 px-4 py-1.5 rounded-full text-sm font-semibold bg-info-100 text-info-900">
                   <CheckCircle size={16} weight="regular" />
-                  Ready for Production
+                  Ready for {nextEnvironment.label}
                 </span>
               )}
-              {!stagingExecuted && !productionExecuted && (
+              {nextEnvironment && executed.length === 0 && (
                 <span className="inline-flex items-center gap-2 px-4 py-1.5 rounded-full text-sm font-semibold bg-warning-100 text-warning-900">
                   <Clock size={16} weight="regular" />
-                  Ready for Staging Execution
+                  Ready for {nextEnvironment.label} Execution
                 </span>
               )}
 
               {/* Secondary Status Badges - Smaller */}
-              {stagingExecuted && !productionExecuted && (
-                <span className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-success-100 text-success-900">
-                  <Check size={14} weight="regular" />
-                  Staging Executed
-                </span>
-              )}
+              {nextEnvironment &&
+                executed.map((env) => (
+                  <span
+                    key={env.name}
+                    className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-success-100 text-success-900"
+                  >
+                    <Check size={14} weight="regular" />
+                    {env.label} Executed
+                  </span>
+                ))}
               {directProd && (
                 <span className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-warning-100 text-warning-900">
                   <Lightning size={14} weight="regular" />
                   Direct Production Allowed
                 </span>
               )}
+              {script.repeatable && (
+                <span className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-info-100 text-info-900">
+                  <ArrowClockwise size={14} weight="regular" />
+                  Repeatable
+                </span>
+              )}
+              {readOnly.readOnly && (
+                <span className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-info-100 text-info-900">
+                  <Eye size={14} weight="regular" />
+                  Read Only
+                </span>
+              )}
+              {readOnly.detected && (
+                <span
+                  className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-neutral-100 text-neutral-800"
+                  title="Every statement is a query. It still runs on the primary and may write through functions; add -- ReadOnly to enforce a read-only transaction."
+                >
+                  <Eye size={14} weight="regular" />
+                  Queries only
+                </span>
+              )}
+              {runAs && (
+                <span className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-neutral-100 text-neutral-800">
+                  <UserSwitch size={14} weight="regular" />
+                  Runs as {runAs}
+                </span>
+              )}
+              {assertions.length > 0 && (
+                <span
+                  className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-neutral-100 text-neutral-800"
+                  title={assertions
+                    .map((a) => `${a.phase}: ${a.sql}`)
+                    .join("\n")}
+                >
+                  <ListChecks size={14} weight="regular" />
+                  {assertions.length} assertion
+                  {assertions.length !== 1 ? "s" : ""}
+                </span>
+              )}
             </div>
 
             {/* Execution Buttons - Right Side */}
             <div className="flex flex-wrap gap-3 items-center">
-              <button
-                onClick={() => {
-                  setTargetDatabase("staging");
-                  setShowConfirm(true);
-                }}
-                className="inline-block px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded transition-colors cursor-pointer text-sm"
-                disabled={isExecuting}
-              >
-                {isExecuting ? "Executing..." : "Execute on Staging"}
-              </button>
-              {canExecuteProduction && (
-                <button
-                  onClick={() => {
-                    setTargetDatabase("production");
-                    setShowConfirm(true);
-                  }}
-                  className="inline-block px-4 py-2 bg-white border-2 border-primary-600 text-primary-600 hover:bg-primary-50 font-medium rounded transition-colors cursor-pointer text-sm"
-                  disabled={isExecuting}
-                >
-                  {isExecuting ? "Executing..." : "Execute on Production"}
-                </button>
-              )}
-              {!canExecuteProduction && !stagingExecuted && (
+              {environments
+                .filter((env) => unlocked[env.name])
+                .map((env, i) => (
+                  <button
+                    key={env.name}
+                    onClick={() => {
+                      setTargetDatabase(env.name);
+                      setConfirmation("");
+                      if (!rerunBlocked[env.name]) checkDrift(env.name, false);
+                      setShowConfirm(true);
+                    }}
+                    className={
+                      i === 0
+                        ? "inline-block px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded transition-colors cursor-pointer text-sm"
+                        : "inline-block px-4 py-2 bg-white border-2 border-primary-600 text-primary-600 hover:bg-primary-50 font-medium rounded transition-colors cursor-pointer text-sm"
+                    }
+                    disabled={isExecuting}
+                  >
+                    {isExecuting ? "Queuing..." : `Execute on ${env.label}`}
+                  </button>
+                ))}
+              {environments
+                .filter((env) => revertable[env.name])
+                .map((env) => (
+                  <button
+                    key={env.name}
+                    onClick={() => {
+                      setConfirmation("");
+                      checkDrift(env.name, true);
+                      setRevertTarget(env.name);
+                    }}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-white border-2 border-error-600 text-error-600 hover:bg-error-50 font-medium rounded transition-colors cursor-pointer text-sm"
+                    disabled={isExecuting}
+                    title="Runs the approved rollback script"
+                  >
+                    <ArrowCounterClockwise size={16} weight="regular" />
+                    Revert {env.label}
+                  </button>
+                ))}
+              {lockedEnvironment && (
                 <div className="flex items-center gap-2 px-3 py-2 bg-warning-50 border border-warning-200 rounded-lg text-sm text-warning-900">
                   <Warning size={16} weight="regular" />
                   <span>
-                    Execute on staging first, or add{" "}
+                    Execute on{" "}
+                    {lockedEnvironment.requires
+                      .filter((name) => !executedIn[name])
+                      .map(labelOf)
+                      .join(" and ")}{" "}
+                    first to unlock {lockedEnvironment.label}, or add{" "}
                     <code className="bg-warning-100 text-warning-900 px-2 py-1 rounded text-xs font-mono font-semibold">
                       -- DirectProd
                     </code>{" "}
@@ -322,8 +940,8 @@ export default function ScriptDetail() {
             </div>
           </div>
 
-          {/* Action Messages */}
-          {actionData && (
+          {/* Action Messages (queued jobs report through their progress panel) */}
+          {actionData && !(actionData.success && actionData.jobId) && (
             <div
               className={`mb-3 p-4 rounded-lg ${
                 "success" in actionData && actionData.success
@@ -341,11 +959,34 @@ export default function ScriptDetail() {
             </div>
           )}
 
-          {isExecuting && (
-            <div className="mb-3 p-4 bg-warning-50 border border-warning-200 rounded-lg text-warning-900">
-              Executing script... Please wait.
+          {scheduledJobs.map((job) => (
+            <div
+              key={job.id}
+              className="mb-3 p-4 bg-info-50 border border-info-200 rounded-lg text-info-900 flex flex-wrap items-center justify-between gap-3"
+            >
+              <span className="flex items-center gap-2 text-sm">
+                <Clock size={16} weight="regular" />
+                Scheduled on{" "}
+                <span className="font-semibold">
+                  {job.target_database}
+                </span> for {new Date(job.scheduled_for!).toLocaleString()} by{" "}
+                {job.requested_by}
+                {job.run_before &&
+                  ` (window closes ${new Date(
+                    job.run_before
+                  ).toLocaleTimeString()})`}
+              </span>
+              <CancelExecutionControls jobId={job.id} />
             </div>
-          )}
+          ))}
+
+          {trackedJobIds.map((jobId) => (
+            <JobProgress
+              key={jobId}
+              jobId={jobId}
+              onFinished={() => revalidator.revalidate()}
+            />
+          ))}
         </div>
 
         {/* Secondary Metadata - More Subtle */}
@@ -368,19 +1009,60 @@ export default function ScriptDetail() {
           )}
         </div>
 
+        {risk.length > 0 && <RiskFindings findings={risk} />}
+
         {/* SQL Script Section - Removed Heading */}
         <div className="mb-4">
           <pre className="bg-neutral-900 text-neutral-100 p-4 rounded-lg overflow-x-auto text-sm">
             {script.script_content}
           </pre>
         </div>
+
+        {script.rollback_content && (
+          <details className="mb-4">
+            <summary className="cursor-pointer text-sm font-medium text-neutral-700">
+              Rollback script
+            </summary>
+            <pre className="mt-2 bg-neutral-900 text-neutral-100 p-4 rounded-lg overflow-x-auto text-sm">
+              {script.rollback_content}
+            </pre>
+          </details>
+        )}
+
+        {(params.length > 0 || paramsError) && (
+          <ParamsForm
+            params={params}
+            error={paramsError}
+            values={paramValues}
+            onChange={setParamValues}
+          />
+        )}
+
+        {planEnvironments.length > 0 && (
+          <PlanPreview
+            environments={planEnvironments}
+            unlocked={unlocked}
+            onPlan={setShownPlan}
+            paramInputs={<ParamInputs params={params} values={paramValues} />}
+          />
+        )}
       </div>
 
       {history.length > 0 && (
         <div className="bg-white border border-neutral-200 rounded-lg p-6 mb-4 mt-6">
-          <h3 className="text-lg font-semibold mb-4 text-neutral-900">
-            Execution History
-          </h3>
+          <div className="flex items-baseline justify-between mb-4">
+            <h3 className="text-lg font-semibold text-neutral-900">
+              Execution History
+            </h3>
+            {comparable >= 2 && (
+              <a
+                href={`/scripts/${script.id}/compare`}
+                className="text-sm font-medium text-primary-600 hover:text-primary-700 hover:underline"
+              >
+                Compare results →
+              </a>
+            )}
+          </div>
           <Table>
             <TableHeader>
               <TableHeaderCell>Executed By</TableHeaderCell>
@@ -396,6 +1078,8 @@ export default function ScriptDetail() {
                 <ExecutionHistoryRow
                   key={entry.id}
                   entry={entry}
+                  reverted={revertedIds.has(entry.id)}
+                  environments={environments}
                   onOpenDetails={openDrawer}
                 />
               ))}
@@ -429,13 +1113,18 @@ export default function ScriptDetail() {
                 <span className="font-semibold text-neutral-900">
                   {targetDatabase}
                 </span>{" "}
-                database.
+                {targetEnvironment?.group
+                  ? "target group, once per member database."
+                  : "database."}{" "}
+                A dry run executes the whole script and rolls it back, showing
+                rows affected, returned rows and errors without persisting any
+                change.
               </p>
             </div>
 
-            {targetDatabase === "production" &&
-              !stagingExecuted &&
-              directProd && (
+            {targetEnvironment &&
+              directProd &&
+              targetEnvironment.requires.some((name) => !executedIn[name]) && (
                 <div className="p-4 bg-warning-50 border border-warning-200 rounded-lg mb-6">
                   <div className="flex items-center gap-2 mb-2">
                     <Warning
@@ -452,7 +1141,12 @@ export default function ScriptDetail() {
                     <code className="bg-warning-100 text-warning-900 px-2 py-1 rounded text-xs font-mono font-semibold">
                       -- DirectProd
                     </code>{" "}
-                    flag, allowing direct production execution without staging.
+                    flag, allowing execution on {targetEnvironment.label} before{" "}
+                    {targetEnvironment.requires
+                      .filter((name) => !executedIn[name])
+                      .map(labelOf)
+                      .join(" and ")}
+                    .
                   </p>
                 </div>
               )}
@@ -480,6 +1174,168 @@ export default function ScriptDetail() {
                 name="targetDatabase"
                 value={targetDatabase}
               />
+              <ParamInputs params={params} values={paramValues} />
+              {params.length > 0 && (
+                <div className="mb-6 text-xs">
+                  <p className="font-medium mb-1 text-neutral-600">
+                    Parameters
+                  </p>
+                  <ul className="font-mono text-neutral-800 space-y-0.5">
+                    {params.map((param) => (
+                      <li key={param.name}>
+                        {param.name} ={" "}
+                        {paramCheck.values[param.name] ?? (
+                          <span className="text-neutral-400">NULL</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  {paramCheck.errors.length > 0 && (
+                    <p className="mt-2 text-error-700">
+                      {paramCheck.errors.join("; ")}
+                    </p>
+                  )}
+                </div>
+              )}
+              {shownPlan && (
+                <input type="hidden" name="planId" value={shownPlan.id} />
+              )}
+              {shownPlan ? (
+                <p className="mb-6 text-xs text-neutral-500">
+                  The {shownPlan.analyzed ? "EXPLAIN ANALYZE" : "EXPLAIN"} plan
+                  from{" "}
+                  <span className="font-medium text-neutral-700">
+                    {shownPlan.target_database}
+                  </span>{" "}
+                  ({new Date(shownPlan.created_at).toLocaleTimeString()}) will
+                  be saved with this execution.
+                </p>
+              ) : (
+                targetEnvironment?.protected && (
+                  <p className="mb-6 text-xs text-neutral-500">
+                    Use "Show plan" first to review the query plan and save it
+                    with this execution.
+                  </p>
+                )
+              )}
+
+              <fieldset className="mb-6 text-xs text-neutral-700">
+                <legend className="font-medium mb-2 text-neutral-600">
+                  When
+                </legend>
+                <input type="hidden" name="schedule" value={when} />
+                {when === "at" && scheduleAt && (
+                  <input
+                    type="hidden"
+                    name="scheduledFor"
+                    value={new Date(scheduleAt).toISOString()}
+                  />
+                )}
+                <div className="space-y-1">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      checked={when === "now"}
+                      onChange={() => setWhen("now")}
+                    />
+                    Now
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      checked={when === "at"}
+                      onChange={() => setWhen("at")}
+                    />
+                    At
+                    <input
+                      type="datetime-local"
+                      value={scheduleAt}
+                      onChange={(e) => {
+                        setScheduleAt(e.target.value);
+                        setWhen("at");
+                      }}
+                      className="border border-neutral-300 rounded px-2 py-1"
+                    />
+                  </label>
+                  <label
+                    className={`flex items-center gap-2 ${
+                      nextWindow ? "" : "text-neutral-400"
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      checked={when === "window"}
+                      disabled={!nextWindow}
+                      onChange={() => setWhen("window")}
+                    />
+                    {nextWindow
+                      ? `Next maintenance window (${new Date(
+                          nextWindow.start
+                        ).toLocaleString()} - ${new Date(
+                          nextWindow.end
+                        ).toLocaleTimeString()})`
+                      : "Next maintenance window (none configured)"}
+                  </label>
+                </div>
+              </fieldset>
+
+              {rerunBlocked[targetDatabase] && (
+                <p className="mb-6 text-xs text-warning-800">
+                  This script already ran successfully on {targetDatabase}. Only
+                  a dry run is possible unless the script is marked{" "}
+                  <code className="bg-warning-100 text-warning-900 px-1 rounded font-mono">
+                    -- Repeatable
+                  </code>
+                  .
+                </p>
+              )}
+
+              {approvers.length < riskRequired[targetDatabase].approvals && (
+                <p className="mb-6 text-xs text-error-700">
+                  Because of its risk findings this script needs{" "}
+                  {riskRequired[targetDatabase].approvals} approvals to run on{" "}
+                  {targetDatabase}; its PR has {approvers.length}. Only a dry
+                  run is possible.
+                </p>
+              )}
+              {riskRequired[targetDatabase].confirm && (
+                <div className="mb-6 p-4 bg-error-50 border border-error-200 rounded-lg">
+                  <label className="block text-xs text-error-900 mb-2">
+                    This script has risk findings (
+                    {[
+                      ...new Set(
+                        risk.map((finding) => RISK_RULES[finding.rule].label)
+                      ),
+                    ].join(", ")}
+                    ). Type{" "}
+                    <code className="bg-error-100 px-1 rounded font-mono font-semibold">
+                      {script.script_name}
+                    </code>{" "}
+                    to confirm.
+                  </label>
+                  <input
+                    type="text"
+                    name="confirmation"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    autoComplete="off"
+                    className="w-full px-3 py-2 border border-error-300 rounded text-sm font-mono"
+                  />
+                </div>
+              )}
+
+              {driftChecking && (
+                <p className="mb-6 text-xs text-neutral-500">
+                  Checking schema drift...
+                </p>
+              )}
+              {driftBlocks && (
+                <SchemaDriftWarning
+                  drift={targetDrift}
+                  acknowledged={driftAcknowledged}
+                  onAcknowledge={setDriftAcknowledged}
+                />
+              )}
 
               <div className="flex gap-3 justify-end">
                 <button
@@ -491,11 +1347,169 @@ export default function ScriptDetail() {
                 >
                   Cancel
                 </button>
+                {when === "now" && (
+                  <button
+                    type="submit"
+                    name="intent"
+                    value="dryRun"
+                    disabled={isExecuting || paramCheck.errors.length > 0}
+                    className="px-4 py-2 bg-white border-2 border-primary-600 text-primary-600 hover:bg-primary-50 font-medium rounded transition-colors text-sm"
+                    title="Runs the script inside a transaction that is always rolled back"
+                  >
+                    Dry run on {targetDatabase}
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  name="intent"
+                  value="execute"
+                  disabled={
+                    isExecuting ||
+                    paramCheck.errors.length > 0 ||
+                    rerunBlocked[targetDatabase] ||
+                    (when === "at" && !scheduleAt) ||
+                    approvers.length < riskRequired[targetDatabase].approvals ||
+                    (riskRequired[targetDatabase].confirm &&
+                      confirmation.trim() !== script.script_name) ||
+                    driftChecking ||
+                    (driftBlocks && !driftAcknowledged)
+                  }
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded transition-colors text-sm disabled:opacity-50"
+                >
+                  {when === "now"
+                    ? `Yes, Execute on ${targetDatabase}`
+                    : `Schedule on ${targetDatabase}`}
+                </button>
+              </div>
+            </Form>
+          </div>
+        </div>
+      )}
+
+      {revertTarget && revertable[revertTarget] && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+          onClick={() => setRevertTarget(null)}
+        >
+          <div
+            className="bg-white rounded-lg shadow-lg max-w-2xl w-[90%] max-h-[90vh] overflow-y-auto p-8"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold mb-2 text-neutral-900 flex items-center gap-2">
+                <ArrowCounterClockwise
+                  size={20}
+                  weight="regular"
+                  className="text-error-600"
+                />
+                Confirm Revert
+              </h3>
+              <p className="text-sm text-neutral-600">
+                This runs the rollback script against the{" "}
+                <span className="font-semibold text-neutral-900">
+                  {revertTarget}
+                </span>{" "}
+                database to undo the execution by{" "}
+                {revertable[revertTarget]?.executed_by} on{" "}
+                {new Date(
+                  revertable[revertTarget]?.executed_at || ""
+                ).toLocaleString()}
+                .
+              </p>
+            </div>
+
+            <div className="bg-neutral-50 p-4 rounded-lg mb-6">
+              <p className="text-xs font-medium mb-2 text-neutral-600">
+                Rollback for {script.script_name}
+              </p>
+              <pre className="text-xs bg-neutral-900 text-neutral-100 p-4 rounded overflow-x-auto max-h-64 overflow-y-auto">
+                {script.rollback_content}
+              </pre>
+            </div>
+
+            <Form method="post">
+              <p className="mb-6 text-xs text-neutral-500">
+                This action will be logged in the audit trail as{" "}
+                <span className="font-medium text-neutral-700">
+                  {user?.email || user?.username || "you"}
+                </span>
+                .
+              </p>
+              <input type="hidden" name="targetDatabase" value={revertTarget} />
+
+              {approvers.length <
+                rollbackRiskRequired[revertTarget].approvals && (
+                <p className="mb-6 text-xs text-error-700">
+                  Because of its risk findings the rollback script needs{" "}
+                  {rollbackRiskRequired[revertTarget].approvals} approvals to
+                  run on {revertTarget}; its PR has {approvers.length}.
+                </p>
+              )}
+              {rollbackRiskRequired[revertTarget].confirm && (
+                <div className="mb-6 p-4 bg-error-50 border border-error-200 rounded-lg">
+                  <label className="block text-xs text-error-900 mb-2">
+                    The rollback script has risk findings (
+                    {[
+                      ...new Set(
+                        rollbackRisk.map(
+                          (finding) => RISK_RULES[finding.rule].label
+                        )
+                      ),
+                    ].join(", ")}
+                    ). Type{" "}
+                    <code className="bg-error-100 px-1 rounded font-mono font-semibold">
+                      {script.script_name}
+                    </code>{" "}
+                    to confirm.
+                  </label>
+                  <input
+                    type="text"
+                    name="confirmation"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    autoComplete="off"
+                    className="w-full px-3 py-2 border border-error-300 rounded text-sm font-mono"
+                  />
+                </div>
+              )}
+
+              {driftChecking && (
+                <p className="mb-6 text-xs text-neutral-500">
+                  Checking schema drift...
+                </p>
+              )}
+              {revertDriftBlocks && (
+                <SchemaDriftWarning
+                  drift={targetRevertDrift}
+                  acknowledged={driftAcknowledged}
+                  onAcknowledge={setDriftAcknowledged}
+                />
+              )}
+
+              <div className="flex gap-3 justify-end">
+                <button
+                  type="button"
+                  onClick={() => setRevertTarget(null)}
+                  className="px-4 py-2 bg-neutral-200 hover:bg-neutral-300 text-neutral-700 font-medium rounded transition-colors text-sm"
+                >
+                  Cancel
+                </button>
                 <button
                   type="submit"
-                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded transition-colors text-sm"
+                  name="intent"
+                  value="revert"
+                  disabled={
+                    isExecuting ||
+                    approvers.length <
+                      rollbackRiskRequired[revertTarget].approvals ||
+                    (rollbackRiskRequired[revertTarget].confirm &&
+                      confirmation.trim() !== script.script_name) ||
+                    driftChecking ||
+                    (revertDriftBlocks && !driftAcknowledged)
+                  }
+                  className="px-4 py-2 bg-error-600 hover:bg-error-700 text-white font-medium rounded transition-colors text-sm disabled:opacity-50"
                 >
-                  Yes, Execute on {targetDatabase}
+                  Yes, Revert {revertTarget}
                 </button>
               </div>
             </Form>
@@ -509,20 +1523,583 @@ export default function ScriptDetail() {
           isOpen={isDrawerOpen}
           onClose={closeDrawer}
           entry={selectedEntry}
+          environments={environments}
         />
       )}
     </div>
   );
 }
 
+// Warnings from the static risk analyzer, one per flagged statement
+function RiskFindings({ findings }: { findings: RiskFinding[] }) {
+  const danger = findings.some((finding) => finding.severity === "danger");
+  return (
+    <div
+      className={`mb-4 p-4 rounded-lg border ${
+        danger
+          ? "bg-error-50 border-error-200 text-error-900"
+          : "bg-warning-50 border-warning-200 text-warning-900"
+      }`}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <Warning size={16} weight="regular" />
+        <strong className="text-sm font-semibold">
+          {findings.length} risk finding{findings.length === 1 ? "" : "s"}
+        </strong>
+      </div>
+      <ul className="space-y-1 text-xs">
+        {findings.map((finding, i) => (
+          <li key={i} className="flex gap-2">
+            <span
+              className={`shrink-0 px-1.5 rounded font-semibold uppercase tracking-wide text-[10px] ${
+                finding.severity === "danger"
+                  ? "bg-error-100 text-error-800"
+                  : "bg-warning-100 text-warning-800"
+              }`}
+            >
+              {RISK_RULES[finding.rule].label}
+            </span>
+            <span>
+              Line {finding.line}: {finding.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Differences between the schema the script ran against before and the
+// target's, with the checkbox that acknowledges them
+function SchemaDriftWarning({
+  drift,
+  acknowledged,
+  onAcknowledge,
+}: {
+  drift: SchemaDrift[];
+  acknowledged: boolean;
+  onAcknowledge: (acknowledged: boolean) => void;
+}) {
+  return (
+    <div className="mb-6 p-4 bg-warning-50 border border-warning-200 rounded-lg text-warning-900">
+      <div className="flex items-center gap-2 mb-2">
+        <Warning size={16} weight="regular" />
+        <strong className="text-sm font-semibold">Schema drift</strong>
+      </div>
+      {drift
+        .filter((entry) => entry.error || entry.differences.length > 0)
+        .map((entry) => (
+          <div key={entry.reference} className="mb-3 text-xs">
+            <p className="mb-1">
+              {entry.target} compared with {entry.reference}{" "}
+              {entry.snapshotAt
+                ? `as it was before the script ran there (${new Date(
+                    entry.snapshotAt
+                  ).toLocaleString()})`
+                : "as it is now"}
+              {entry.skipped.length > 0 &&
+                `; not compared because the script changes them: ${entry.skipped.join(
+                  ", "
+                )}`}
+            </p>
+            {entry.error ? (
+              <p className="text-error-700">Check failed: {entry.error}</p>
+            ) : (
+              <table className="w-full font-mono">
+                <thead>
+                  <tr className="text-left text-warning-800">
+                    <th className="pr-3 font-medium">Object</th>
+                    <th className="pr-3 font-medium">{entry.reference}</th>
+                    <th className="font-medium">{entry.target}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entry.differences.map((difference, i) => (
+                    <tr key={i} className="align-top">
+                      <td className="pr-3 py-0.5">
+                        {difference.kind === "table"
+                          ? `table ${difference.table}`
+                          : `${difference.table} ${difference.kind} ${difference.name}`}
+                      </td>
+                      <td className="pr-3 py-0.5">
+                        {difference.reference ?? "(missing)"}
+                      </td>
+                      <td className="py-0.5">
+                        {difference.target ?? "(missing)"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ))}
+      <label className="flex items-center gap-2 text-xs font-medium">
+        <input
+          type="checkbox"
+          name="acknowledgeDrift"
+          checked={acknowledged}
+          onChange={(e) => onAcknowledge(e.target.checked)}
+        />
+        I have reviewed the drift and want to run anyway (recorded in the audit
+        log)
+      </label>
+    </div>
+  );
+}
+
+// Typed inputs for the script's -- Param declarations
+function ParamsForm({
+  params,
+  error,
+  values,
+  onChange,
+}: {
+  params: ScriptParam[];
+  error: string | null;
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+}) {
+  const inputClass =
+    "border border-neutral-300 rounded px-2 py-1 text-sm font-mono w-full";
+
+  return (
+    <div className="border border-neutral-200 rounded-lg p-4 mb-4">
+      <p className="font-semibold text-neutral-900 text-sm mb-3">Parameters</p>
+      {error ? (
+        <p className="text-sm text-error-700">{error}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {params.map((param) => {
+            const value = values[param.name] ?? "";
+            const set = (next: string) =>
+              onChange({ ...values, [param.name]: next });
+            const input = PARAM_TYPES[param.type].input;
+
+            return (
+              <label key={param.name} className="text-sm">
+                <span className="flex items-baseline gap-2 mb-1">
+                  <span className="font-mono font-medium text-neutral-900">
+                    {param.name}
+                  </span>
+                  <span className="text-xs text-neutral-500">
+                    {param.type}
+                    {param.required ? " · required" : ""}
+                  </span>
+                </span>
+                {input === "boolean" ? (
+                  <select
+                    value={value}
+                    onChange={(e) => set(e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">
+                      {param.required ? "Choose..." : "NULL"}
+                    </option>
+                    <option value="true">true</option>
+                    <option value="false">false</option>
+                  </select>
+                ) : input === "json" ? (
+                  <textarea
+                    value={value}
+                    onChange={(e) => set(e.target.value)}
+                    rows={3}
+                    className={inputClass}
+                  />
+                ) : (
+                  <input
+                    type={input}
+                    step={input === "number" ? 1 : undefined}
+                    value={value}
+                    onChange={(e) => set(e.target.value)}
+                    placeholder={param.required ? "" : "NULL"}
+                    className={inputClass}
+                  />
+                )}
+              </label>
+            );
+          })}
+        </div>
+      )}
+      <p className="mt-3 text-xs text-neutral-500">
+        Values are bound as query parameters and saved in the audit log with the
+        execution.
+      </p>
+    </div>
+  );
+}
+
+// Parameter values carried by a form as hidden param:<name> fields
+function ParamInputs({
+  params,
+  values,
+}: {
+  params: ScriptParam[];
+  values: Record<string, string>;
+}) {
+  return (
+    <>
+      {params.map((param) => (
+        <input
+          key={param.name}
+          type="hidden"
+          name={`param:${param.name}`}
+          value={values[param.name] ?? ""}
+        />
+      ))}
+    </>
+  );
+}
+
+// "Show plan" panel: EXPLAIN (optionally ANALYZE, rolled back) per statement
+function PlanPreview({
+  environments,
+  unlocked,
+  onPlan,
+  paramInputs,
+}: {
+  environments: EnvironmentInfo[];
+  unlocked: Record<string, boolean>;
+  onPlan: (plan: QueryPlan) => void;
+  paramInputs: React.ReactNode;
+}) {
+  const fetcher = useFetcher<PlanActionData>();
+  const [target, setTarget] = useState<string>(environments[0].name);
+  const [analyze, setAnalyze] = useState(false);
+  const isLoading = fetcher.state !== "idle";
+
+  useEffect(() => {
+    if (fetcher.data && fetcher.data.success) {
+      onPlan(fetcher.data.plan);
+    }
+  }, [fetcher.data, onPlan]);
+
+  const plan = fetcher.data && fetcher.data.success ? fetcher.data.plan : null;
+  const targetEnvironment = environments.find((env) => env.name === target);
+  const analyzeBlocked = analyze && !unlocked[target];
+
+  return (
+    <div className="border border-neutral-200 rounded-lg p-4">
+      <fetcher.Form
+        method="post"
+        className="flex flex-wrap items-center gap-3 text-sm"
+      >
+        <input type="hidden" name="intent" value="explain" />
+        {paramInputs}
+        <span className="font-semibold text-neutral-900">Query plan</span>
+        <select
+          name="targetDatabase"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          className="border border-neutral-300 rounded px-2 py-1 text-sm"
+        >
+          {environments.map((env) => (
+            <option key={env.name} value={env.name}>
+              {env.name}
+            </option>
+          ))}
+        </select>
+        <label
+          className="flex items-center gap-2 text-neutral-700"
+          title="Executes each statement inside a transaction that is rolled back, to report actual rows and timing"
+        >
+          <input
+            type="checkbox"
+            name="analyze"
+            checked={analyze}
+            onChange={(e) => setAnalyze(e.target.checked)}
+          />
+          EXPLAIN ANALYZE
+        </label>
+        <button
+          type="submit"
+          disabled={isLoading || analyzeBlocked}
+          className="px-3 py-1.5 bg-white border-2 border-primary-600 text-primary-600 hover:bg-primary-50 font-medium rounded transition-colors text-sm disabled:opacity-50"
+        >
+          {isLoading ? "Explaining..." : "Show plan"}
+        </button>
+        {analyze && (
+          <span className="text-xs text-warning-700">
+            {analyzeBlocked
+              ? `Run on ${targetEnvironment?.requires.join(
+                  " and "
+                )} first to analyze on ${target}`
+              : "Statements will run and be rolled back"}
+          </span>
+        )}
+      </fetcher.Form>
+
+      {fetcher.data && !fetcher.data.success && (
+        <div className="mt-3 p-3 rounded-lg bg-error-50 border border-error-200 text-error-900 text-sm">
+          Error: {fetcher.data.error}
+        </div>
+      )}
+
+      {plan && (
+        <div className="mt-4">
+          <p className="text-xs text-neutral-500 mb-2">
+            {plan.analyzed ? "EXPLAIN ANALYZE" : "EXPLAIN"} on{" "}
+            <span className="font-medium text-neutral-700">
+              {plan.target_database}
+            </span>{" "}
+            at {new Date(plan.created_at).toLocaleTimeString()}
+          </p>
+          <QueryPlanView
+            statements={plan.statements}
+            analyzed={plan.analyzed}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Progress panel for an execution job; polls until the job finishes
+function JobProgress({
+  jobId,
+  onFinished,
+}: {
+  jobId: number;
+  onFinished: () => void;
+}) {
+  const fetcher = useFetcher<{ job: ExecutionJob }>();
+  const job = fetcher.data?.job;
+  const finished =
+    job !== undefined && job.status !== "queued" && job.status !== "running";
+  const notified = useRef(false);
+
+  useEffect(() => {
+    if (finished) return;
+    fetcher.load(`/api/jobs/${jobId}`);
+    const interval = setInterval(() => {
+      fetcher.load(`/api/jobs/${jobId}`);
+    }, 1500);
+    return () => clearInterval(interval);
+  }, [jobId, finished]);
+
+  // Refresh history and status badges once the job is done
+  useEffect(() => {
+    if (finished && !notified.current) {
+      notified.current = true;
+      onFinished();
+    }
+  }, [finished, onFinished]);
+
+  if (!job) {
+    return (
+      <div className="mb-3 p-4 bg-neutral-50 border border-neutral-200 rounded-lg text-neutral-700 flex items-center gap-2 text-sm">
+        <LoadingSpinner size={16} />
+        Loading execution #{jobId}...
+      </div>
+    );
+  }
+
+  const label =
+    job.mode === "dry_run"
+      ? "Dry run"
+      : job.mode === "revert"
+      ? "Revert"
+      : "Execution";
+
+  if (finished) {
+    const succeeded = job.status === "succeeded";
+    return (
+      <div
+        className={`mb-3 p-4 rounded-lg ${
+          succeeded
+            ? "bg-success-50 border border-success-200 text-success-900"
+            : "bg-error-50 border border-error-200 text-error-900"
+        }`}
+      >
+        {succeeded
+          ? job.message
+          : `${label} ${job.status} on ${job.target_database}: ${
+              job.error_message || job.message || "Unknown error"
+            }`}
+        {job.members && <MemberMatrix members={job.members} />}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-3 p-4 bg-warning-50 border border-warning-200 rounded-lg text-warning-900 flex flex-wrap items-center justify-between gap-3">
+      <span className="flex items-center gap-2 text-sm">
+        <LoadingSpinner size={16} />
+        {job.status === "queued" ? (
+          <>
+            {label} on{" "}
+            <span className="font-semibold">{job.target_database}</span> queued
+            by {job.requested_by}...
+          </>
+        ) : (
+          <>
+            {label} running on{" "}
+            <span className="font-semibold">{job.target_database}</span> by{" "}
+            {job.requested_by}
+            {job.started_at &&
+              ` since ${new Date(job.started_at).toLocaleTimeString()}`}
+          </>
+        )}
+        {job.progress &&
+          ` · ${job.progress.batches.toLocaleString()} batch${
+            job.progress.batches !== 1 ? "es" : ""
+          } committed, ${job.progress.rows.toLocaleString()} rows`}
+        {job.cancel_requested_by &&
+          ` · cancel requested by ${job.cancel_requested_by}`}
+      </span>
+      <CancelExecutionControls
+        jobId={job.id}
+        cancelRequested={job.cancel_requested_by !== null}
+      />
+      {job.members && <MemberMatrix members={job.members} />}
+    </div>
+  );
+}
+
+const memberStyles: Record<JobMember["status"], string> = {
+  pending: "bg-white border-neutral-200 text-neutral-500",
+  running: "bg-warning-100 border-warning-300 text-warning-900",
+  succeeded: "bg-success-100 border-success-300 text-success-900",
+  failed: "bg-error-100 border-error-300 text-error-900",
+  cancelled: "bg-neutral-100 border-neutral-300 text-neutral-700",
+  skipped: "bg-neutral-100 border-neutral-300 text-neutral-500",
+};
+
+// Per-member status of a target group job
+function MemberMatrix({ members }: { members: JobMember[] }) {
+  return (
+    <div className="basis-full mt-3 grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+      {members.map((member) => (
+        <div
+          key={member.name}
+          className={`border rounded px-2 py-1 text-xs ${
+            memberStyles[member.status]
+          }`}
+          title={member.message}
+        >
+          <div className="flex items-center justify-between gap-1">
+            <span className="font-mono font-semibold truncate">
+              {member.name}
+            </span>
+            {member.canary && (
+              <span className="text-[10px] uppercase tracking-wide">
+                canary
+              </span>
+            )}
+          </div>
+          <div>
+            {member.status}
+            {member.status === "running" &&
+              member.progress &&
+              ` · ${member.progress.rows.toLocaleString()} rows`}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Cancel control for a queued or running execution. A cancel request
+// (pg_cancel_backend) can be escalated to terminating the backend.
+function CancelExecutionControls({
+  jobId,
+  cancelRequested = false,
+}: {
+  jobId: number;
+  cancelRequested?: boolean;
+}) {
+  const fetcher = useFetcher<ActionData>();
+  const [requested, setRequested] = useState(cancelRequested);
+  const escalate = requested || cancelRequested;
+
+  useEffect(() => {
+    if (fetcher.data && fetcher.data.success) {
+      setRequested(true);
+    }
+  }, [fetcher.data]);
+
+  return (
+    <div className="flex items-center gap-3">
+      {fetcher.data && !fetcher.data.success && (
+        <span className="text-xs text-error-700">{fetcher.data.error}</span>
+      )}
+      <fetcher.Form method="post">
+        <input type="hidden" name="jobId" value={jobId} />
+        {escalate ? (
+          <button
+            type="submit"
+            name="intent"
+            value="terminate"
+            disabled={fetcher.state !== "idle"}
+            className="px-4 py-2 bg-error-600 hover:bg-error-700 text-white font-medium rounded transition-colors text-sm disabled:opacity-50"
+            title="Terminates the database backend running the script (pg_terminate_backend)"
+          >
+            Force terminate
+          </button>
+        ) : (
+          <button
+            type="submit"
+            name="intent"
+            value="cancel"
+            disabled={fetcher.state !== "idle"}
+            className="px-4 py-2 bg-white border-2 border-error-600 text-error-600 hover:bg-error-50 font-medium rounded transition-colors text-sm disabled:opacity-50"
+            title="Cancels the running statement (pg_cancel_backend)"
+          >
+            {fetcher.state !== "idle" ? "Cancelling..." : "Cancel execution"}
+          </button>
+        )}
+      </fetcher.Form>
+    </div>
+  );
+}
+
 // Component for rendering execution history rows
 function ExecutionHistoryRow({
   entry,
+  reverted,
+  environments,
   onOpenDetails,
 }: {
   entry: any;
+  reverted: boolean;
+  environments: EnvironmentInfo[];
   onOpenDetails: (entry: any) => void;
 }) {
+  const isProtected = environments.some(
+    (env) => env.name === entry.target_database && env.protected
+  );
+  const statusCell = (
+    <div className="flex items-center gap-2">
+      <StatusBadge status={entry.status} />
+      {entry.reverts_execution_id && (
+        <span
+          className="text-xs text-neutral-500 whitespace-nowrap"
+          title={`Rollback script run to undo execution #${entry.reverts_execution_id}`}
+        >
+          ↩ revert
+        </span>
+      )}
+      {reverted && (
+        <span className="text-xs text-neutral-500 whitespace-nowrap">
+          reverted
+        </span>
+      )}
+      {Array.isArray(entry.assertions) && entry.assertions.length > 0 && (
+        <span
+          className={`text-xs whitespace-nowrap ${
+            entry.assertions.every((a: AssertionResult) => a.passed)
+              ? "text-success-700"
+              : "text-error-700"
+          }`}
+          title="-- Assert checks that passed (details in the execution details)"
+        >
+          {entry.assertions.filter((a: AssertionResult) => a.passed).length}/
+          {entry.assertions.length} assertions
+        </span>
+      )}
+    </div>
+  );
+
   // Parse result_data if it's a string (shouldn't happen with JSONB, but handle it)
   let resultData = entry.result_data;
   if (resultData && typeof resultData === "string") {
@@ -535,37 +2112,37 @@ function ExecutionHistoryRow({
 
   const hasResults =
     resultData && Array.isArray(resultData) && resultData.length > 0;
+  // Per-statement results are worth opening even when nothing was returned
+  const hasStatements =
+    Array.isArray(entry.statement_results) &&
+    entry.statement_results.length > 0;
 
-  // Check if script content is a SELECT query (to detect if results should have been captured)
-  const scriptContent = entry.script_content || "";
-  const sqlClean = scriptContent
-    .replace(/--.*$/gm, "") // Remove single-line comments
-    .replace(/\/\*[\s\S]*?\*\//g, "") // Remove multi-line comments
-    .trim()
-    .toUpperCase();
-  const isSelectQuery = sqlClean.startsWith("SELECT");
+  // Whether any statement returns rows (to detect if results should have been captured)
+  const returnsRows = splitStatements(entry.script_content || "").some(
+    (statement) => classifyStatement(statement.text).returnsRows
+  );
 
   // Determine result display message
   let resultDisplay;
   if (hasResults) {
     resultDisplay = null; // Will show button
-  } else if (isSelectQuery && entry.rows_affected && entry.rows_affected > 0) {
-    // SELECT query with rows but no results captured (likely executed before feature was added)
+  } else if (returnsRows && entry.rows_affected && entry.rows_affected > 0) {
+    // Rows returned but no results captured (likely executed before feature was added)
     resultDisplay = (
       <span
         className="inline-flex items-center gap-2 px-3 py-1 rounded-md text-xs font-medium bg-warning-50 text-warning-700 border border-warning-200"
-        title="This SELECT query returned rows, but results weren't captured (likely executed before result capture feature was added). Re-execute to see results."
+        title="This script returned rows, but results weren't captured (likely executed before result capture feature was added). Re-execute to see results."
       >
         <Warning size={14} weight="bold" />
         Not captured
       </span>
     );
   } else {
-    // DDL/DML query - no results expected
+    // DDL/DML without RETURNING - no results expected
     resultDisplay = (
       <span
         className="inline-flex items-center gap-2 text-neutral-500 text-sm"
-        title="Results are only available for SELECT queries. DDL/DML queries show row count in 'Rows Affected' column."
+        title="Results are only available for statements that return rows (queries, DML with RETURNING). Other statements show their row count in 'Rows Affected' column."
       >
         N/A
         <Info size={14} weight="regular" className="text-neutral-400" />
@@ -573,32 +2150,27 @@ function ExecutionHistoryRow({
     );
   }
 
-  if (!hasResults) {
+  if (!hasResults && !hasStatements) {
     return (
       <TableRow>
         <TableCell>{entry.executed_by}</TableCell>
         <TableCell>
           <span
             className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold ${
-              entry.target_database === "production"
+              isProtected
                 ? "bg-error-100 text-error-900"
                 : "bg-info-100 text-info-900"
             }`}
           >
             {entry.target_database}
           </span>
+          {entry.target_member && (
+            <span className="ml-1 font-mono text-xs text-neutral-600">
+              {entry.target_member}
+            </span>
+          )}
         </TableCell>
-        <TableCell>
-          <span
-            className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold ${
-              entry.status === "success"
-                ? "bg-success-100 text-success-900"
-                : "bg-error-100 text-error-900"
-            }`}
-          >
-            {entry.status}
-          </span>
-        </TableCell>
+        <TableCell>{statusCell}</TableCell>
         <TableCell className="text-neutral-700">
           {entry.rows_affected !== null ? entry.rows_affected : "N/A"}
         </TableCell>
@@ -619,25 +2191,20 @@ function ExecutionHistoryRow({
       <TableCell>
         <span
           className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold ${
-            entry.target_database === "production"
+            isProtected
               ? "bg-error-100 text-error-900"
               : "bg-info-100 text-info-900"
           }`}
         >
           {entry.target_database}
         </span>
+        {entry.target_member && (
+          <span className="ml-1 font-mono text-xs text-neutral-600">
+            {entry.target_member}
+          </span>
+        )}
       </TableCell>
-      <TableCell>
-        <span
-          className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold ${
-            entry.status === "success"
-              ? "bg-success-100 text-success-900"
-              : "bg-error-100 text-error-900"
-          }`}
-        >
-          {entry.status}
-        </span>
-      </TableCell>
+      <TableCell>{statusCell}</TableCell>
       <TableCell className="text-gray-700">
         {entry.rows_affected !== null ? entry.rows_affected : "N/A"}
       </TableCell>
@@ -648,14 +2215,15 @@ function ExecutionHistoryRow({
         {new Date(entry.executed_at).toLocaleString()}
       </TableCell>
       <TableCell>
-        {resultDisplay || (
+        <div className="flex items-center gap-3">
+          {resultDisplay}
           <button
             onClick={() => onOpenDetails(entry)}
             className="text-primary-600 hover:text-primary-700 hover:underline text-sm font-medium"
           >
             Details
           </button>
-        )}
+        </div>
       </TableCell>
     </TableRow>
   );
@@ -0,0 +1,507 @@
+import { redirect } from "react-router";
+import { json } from "~/lib/json.server";
+import { useLoaderData, Form } from "react-router";
+import type { LoaderFunctionArgs, MetaFunction } from "react-router";
+import { getUserFromSession } from "~/lib/auth.server";
+import { getScriptById, getScriptExecutionHistory } from "~/lib/db.server";
+import { compareResults, resultStatements } from "~/lib/compare.server";
+import { environmentInfo } from "~/config.server";
+import { isSuccessStatus } from "~/components/StatusBadge";
+import type {
+  ComparedResult,
+  EnvironmentInfo,
+  ExecutionLog,
+  ResultComparison,
+} from "~/lib/types";
+import {
+  Table,
+  TableHeader,
+  TableHeaderCell,
+  TableBody,
+  TableRow,
+  TableCell,
+} from "~/components/Table";
+
+// Compare what two executions of a script returned - by default the latest
+// rehearsal on an unprotected environment against the latest protected run
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  // Require authentication
+  const user = await getUserFromSession(request);
+  if (!user) {
+    throw redirect("/login");
+  }
+
+  const script = await getScriptById(parseInt(params.id || "0"));
+  if (!script) {
+    throw new Response("Script not found", {
+      status: 404,
+      statusText: "Script not found",
+    });
+  }
+
+  // Successful runs that returned rows, newest first
+  const history = await getScriptExecutionHistory(script.script_name);
+  const candidates = history.filter(
+    (entry) =>
+      isSuccessStatus(entry.status) && resultStatements(entry).length > 0
+  );
+  const environments = environmentInfo();
+  const isProtected = (entry: ExecutionLog) =>
+    environments.some(
+      (env) => env.name === entry.target_database && env.protected
+    );
+
+  const url = new URL(request.url);
+  const chosen = (param: string) =>
+    candidates.find(
+      (entry) => entry.id === parseInt(url.searchParams.get(param) || "0")
+    );
+  const left =
+    chosen("left") || candidates.find((entry) => !isProtected(entry));
+  const right =
+    chosen("right") ||
+    candidates.find((entry) => isProtected(entry) && entry !== left);
+
+  // Statements both sides returned rows for; the last one by default, like
+  // the result preview
+  const statements =
+    left && right
+      ? resultStatements(left).filter((statement) =>
+          resultStatements(right).some(
+            (other) => other.index === statement.index
+          )
+        )
+      : [];
+  const requested = parseInt(url.searchParams.get("statement") || "-1");
+  const statement =
+    statements.find((s) => s.index === requested) ||
+    statements[statements.length - 1];
+
+  const comparison =
+    left && right && statement
+      ? await compareResults(
+          left,
+          right,
+          statement.index,
+          url.searchParams.get("key")
+        )
+      : null;
+
+  return json({
+    script: { id: script.id, script_name: script.script_name },
+    candidates: candidates.map((entry) => ({
+      id: entry.id,
+      target_database: entry.target_database,
+      target_member: entry.target_member ?? null,
+      executed_by: entry.executed_by,
+      executed_at: entry.executed_at,
+      status: entry.status,
+    })),
+    leftId: left?.id ?? null,
+    rightId: right?.id ?? null,
+    statements: statements.map((s) => ({
+      index: s.index,
+      line: s.line,
+      sql: s.sql.split("\n")[0],
+    })),
+    comparison,
+    environments,
+    user,
+  });
+}
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Compare Results - Git for SQL" }];
+};
+
+type Candidate = Pick<
+  ExecutionLog,
+  "id" | "target_database" | "executed_by" | "executed_at" | "status"
+> & { target_member: string | null };
+
+type LoaderData = {
+  script: { id: number; script_name: string };
+  candidates: Candidate[];
+  leftId: number | null;
+  rightId: number | null;
+  statements: { index: number; line: number; sql: string }[];
+  comparison: ResultComparison | null;
+  environments: EnvironmentInfo[];
+  user: NonNullable<Awaited<ReturnType<typeof getUserFromSession>>>;
+};
+
+// How an execution is named in the pickers
+function describe(entry: {
+  id: number;
+  target_database: string;
+  target_member: string | null;
+  executed_at: Date | string;
+}): string {
+  return `#${entry.id} · ${entry.target_database}${
+    entry.target_member ? ` (${entry.target_member})` : ""
+  } · ${new Date(entry.executed_at).toLocaleString()}`;
+}
+
+export default function CompareResults() {
+  const {
+    script,
+    candidates,
+    leftId,
+    rightId,
+    statements,
+    comparison,
+    environments,
+  } = useLoaderData<LoaderData>();
+
+  const columns = comparison
+    ? comparison.left.columns.filter((column) =>
+        comparison.right.columns.includes(column)
+      )
+    : [];
+
+  return (
+    <div>
+      <div className="mb-4">
+        <a
+          href={`/scripts/${script.id}`}
+          className="text-primary-600 hover:text-primary-700 hover:underline text-sm font-medium"
+        >
+          ← Back to {script.script_name}
+        </a>
+      </div>
+
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold mb-2">Compare Results</h2>
+        <p className="text-neutral-600">
+          What {script.script_name} returned in two executions, e.g. the
+          rehearsal on{" "}
+          {environments.find((env) => !env.protected)?.label || "staging"}{" "}
+          against the{" "}
+          {environments.find((env) => env.protected)?.label || "production"}{" "}
+          run.
+        </p>
+      </div>
+
+      {candidates.length < 2 ? (
+        <div className="bg-white border border-neutral-200 rounded-lg p-6 mb-4">
+          <p className="text-neutral-600">
+            Comparing needs two successful executions that returned rows.
+          </p>
+        </div>
+      ) : (
+        <Form
+          method="get"
+          className="bg-white border border-neutral-200 rounded-lg p-6 mb-4 grid grid-cols-1 md:grid-cols-2 gap-4"
+        >
+          <label className="text-sm">
+            <span className="block text-xs text-neutral-500 mb-1">Left</span>
+            <select
+              name="left"
+              defaultValue={leftId ?? undefined}
+              className="w-full border border-neutral-300 rounded px-2 py-1.5 text-sm"
+            >
+              {candidates.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {describe(entry)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="block text-xs text-neutral-500 mb-1">Right</span>
+            <select
+              name="right"
+              defaultValue={rightId ?? undefined}
+              className="w-full border border-neutral-300 rounded px-2 py-1.5 text-sm"
+            >
+              {candidates.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {describe(entry)}
+                </option>
+              ))}
+            </select>
+          </label>
+          {statements.length > 1 && (
+            <label className="text-sm">
+              <span className="block text-xs text-neutral-500 mb-1">
+                Statement
+              </span>
+              <select
+                name="statement"
+                defaultValue={comparison?.statement}
+                className="w-full border border-neutral-300 rounded px-2 py-1.5 text-sm font-mono"
+              >
+                {statements.map((statement) => (
+                  <option key={statement.index} value={statement.index}>
+                    #{statement.index + 1} (line {statement.line}):{" "}
+                    {statement.sql}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {columns.length > 0 && (
+            <label className="text-sm">
+              <span className="block text-xs text-neutral-500 mb-1">
+                Key column
+              </span>
+              <select
+                name="key"
+                defaultValue={comparison?.key ?? undefined}
+                className="w-full border border-neutral-300 rounded px-2 py-1.5 text-sm font-mono"
+              >
+                {columns.map((column) => (
+                  <option key={column} value={column}>
+                    {column}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <div className="md:col-span-2 flex justify-end">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded transition-colors text-sm"
+            >
+              Compare
+            </button>
+          </div>
+        </Form>
+      )}
+
+      {candidates.length >= 2 && !comparison && (
+        <div className="bg-white border border-neutral-200 rounded-lg p-6 mb-4">
+          <p className="text-neutral-600">
+            Pick two executions that returned rows for the same statement.
+          </p>
+        </div>
+      )}
+
+      {comparison && (
+        <ComparisonView comparison={comparison} columns={columns} />
+      )}
+    </div>
+  );
+}
+
+function ComparisonView({
+  comparison,
+  columns,
+}: {
+  comparison: ResultComparison;
+  columns: string[];
+}) {
+  const { counts } = comparison;
+  return (
+    <div className="space-y-4">
+      <div className="bg-white border border-neutral-200 rounded-lg p-6 grid grid-cols-2 md:grid-cols-4 gap-6">
+        <SideSummary label="Left" side={comparison.left} />
+        <SideSummary label="Right" side={comparison.right} />
+        <div>
+          <div className="text-xs text-neutral-500 mb-1">Row Count Delta</div>
+          <div
+            className={`text-2xl font-bold ${
+              comparison.rowDelta === 0
+                ? "text-success-700"
+                : "text-warning-700"
+            }`}
+          >
+            {comparison.rowDelta > 0 ? "+" : ""}
+            {comparison.rowDelta.toLocaleString()}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-neutral-500 mb-1">
+            Rows by {comparison.key ?? "key"}
+          </div>
+          <div className="text-sm text-neutral-900 space-y-0.5">
+            <div>{counts.same.toLocaleString()} same</div>
+            <div className="text-warning-700">
+              {counts.changed.toLocaleString()} changed
+            </div>
+            <div className="text-success-700">
+              {counts.added.toLocaleString()} only right
+            </div>
+            <div className="text-error-700">
+              {counts.removed.toLocaleString()} only left
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {(!comparison.complete || comparison.duplicateKeys > 0) && (
+        <div className="p-4 bg-warning-50 border border-warning-200 rounded-lg text-sm text-warning-900 space-y-1">
+          {!comparison.complete && (
+            <p>
+              Only part of the results was compared (
+              {comparison.left.loaded.toLocaleString()} and{" "}
+              {comparison.right.loaded.toLocaleString()} rows); the full result
+              set wasn't stored or is too large.
+            </p>
+          )}
+          {comparison.duplicateKeys > 0 && (
+            <p>
+              {comparison.duplicateKeys.toLocaleString()} rows repeat a{" "}
+              {comparison.key} value already seen and were not compared; pick a
+              unique key column.
+            </p>
+          )}
+        </div>
+      )}
+
+      {(comparison.onlyLeft.length > 0 || comparison.onlyRight.length > 0) && (
+        <div className="bg-white border border-neutral-200 rounded-lg p-6 text-sm">
+          <h3 className="text-lg font-semibold mb-3 text-neutral-900">
+            Columns
+          </h3>
+          {comparison.onlyLeft.length > 0 && (
+            <p className="text-error-700">
+              Only left:{" "}
+              <span className="font-mono">
+                {comparison.onlyLeft.join(", ")}
+              </span>
+            </p>
+          )}
+          {comparison.onlyRight.length > 0 && (
+            <p className="text-success-700">
+              Only right:{" "}
+              <span className="font-mono">
+                {comparison.onlyRight.join(", ")}
+              </span>
+            </p>
+          )}
+        </div>
+      )}
+
+      {comparison.changed.length > 0 && (
+        <div className="bg-white border border-neutral-200 rounded-lg p-6">
+          <h3 className="text-lg font-semibold mb-3 text-neutral-900">
+            Changed ({counts.changed.toLocaleString()})
+          </h3>
+          <Table>
+            <TableHeader>
+              <TableHeaderCell>{comparison.key}</TableHeaderCell>
+              <TableHeaderCell>Column</TableHeaderCell>
+              <TableHeaderCell>Left</TableHeaderCell>
+              <TableHeaderCell>Right</TableHeaderCell>
+            </TableHeader>
+            <TableBody>
+              {comparison.changed.flatMap((row) =>
+                row.columns.map((column) => (
+                  <TableRow key={`${String(row.key)}:${column}`}>
+                    <TableCell className="font-mono text-xs">
+                      <Value value={row.key} />
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {column}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs bg-error-50">
+                      <Value value={row.left[column]} />
+                    </TableCell>
+                    <TableCell className="font-mono text-xs bg-success-50">
+                      <Value value={row.right[column]} />
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <RowList
+        title="Only right"
+        total={counts.added}
+        rows={comparison.added}
+        columns={comparison.right.columns}
+      />
+      <RowList
+        title="Only left"
+        total={counts.removed}
+        rows={comparison.removed}
+        columns={comparison.left.columns}
+      />
+
+      {comparison.key === null && columns.length === 0 && (
+        <p className="text-sm text-neutral-600">
+          The results share no columns, so rows can't be matched.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function SideSummary({ label, side }: { label: string; side: ComparedResult }) {
+  return (
+    <div>
+      <div className="text-xs text-neutral-500 mb-1">
+        {label}: #{side.executionId} on {side.target}
+        {side.member ? ` (${side.member})` : ""}
+      </div>
+      <div className="text-2xl font-bold text-neutral-900">
+        {side.rowCount.toLocaleString()} rows
+      </div>
+      <div className="text-xs text-neutral-500">
+        {new Date(side.executedAt).toLocaleString()}
+      </div>
+    </div>
+  );
+}
+
+// Rows present on one side only
+function RowList({
+  title,
+  total,
+  rows,
+  columns,
+}: {
+  title: string;
+  total: number;
+  rows: Record<string, unknown>[];
+  columns: string[];
+}) {
+  if (rows.length === 0) return null;
+  return (
+    <div className="bg-white border border-neutral-200 rounded-lg p-6">
+      <h3 className="text-lg font-semibold mb-3 text-neutral-900">
+        {title} ({total.toLocaleString()})
+        {total > rows.length && (
+          <span className="ml-2 text-xs font-normal text-neutral-500">
+            showing first {rows.length}
+          </span>
+        )}
+      </h3>
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            {columns.map((column) => (
+              <TableHeaderCell key={column}>{column}</TableHeaderCell>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, i) => (
+              <TableRow key={i}>
+                {columns.map((column) => (
+                  <TableCell key={column} className="font-mono text-xs">
+                    <Value value={row[column]} />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+function Value({ value }: { value: unknown }) {
+  if (value === null || value === undefined) {
+    return <span className="text-neutral-400 italic">NULL</span>;
+  }
+  return (
+    <span className="text-neutral-900">
+      {typeof value === "object" ? JSON.stringify(value) : String(value)}
+    </span>
+  );
+}